@@ -1,18 +1,10 @@
 #!/usr/bin/env sh
 set -e
 
-PORT="${PORT:-8000}"
-INTERVAL="${INTERVAL:-30}"
-OLLAMA_HOST="${OLLAMA_HOST:-localhost:11434}"
-API_TIMEOUT="${API_TIMEOUT:-30}"
-LOG_LEVEL="${LOG_LEVEL:-INFO}"
-
-exec node --experimental-strip-types /app/src/index.ts \
-  --port "$PORT" \
-  --interval "$INTERVAL" \
-  --ollama-host "$OLLAMA_HOST" \
-  --api-timeout "$API_TIMEOUT" \
-  --log-level "$LOG_LEVEL"
-
-
+# The image's health check queries the plain HTTP health listener, which does not depend on the port,
+# TLS or basic auth settings. Keep this default in sync with docker-healthcheck.sh.
+export HEALTH_PORT="${HEALTH_PORT:-8001}"
 
+# Settings are read from the environment (PORT, INTERVAL, OLLAMA_HOST, ...) and an optional
+# config file (CONFIG_FILE or --config), so only pass through explicit arguments here.
+exec node --experimental-strip-types /app/src/index.ts "$@"
@@ -1,6 +1,7 @@
 #!/usr/bin/env sh
 set -e
 
-PORT="${PORT:-8000}"
+# The health listener serves plain HTTP on 127.0.0.1 only, see docker-entrypoint.sh for the default port
+HEALTH_PORT="${HEALTH_PORT:-8001}"
 
-exec env PORT="$PORT" node -e "fetch('http://localhost:' + process.env.PORT + '/health').then((r) => process.exit(r.ok ? 0 : 1)).catch(() => process.exit(1))"
+exec env HEALTH_PORT="$HEALTH_PORT" node -e "require('node:http').get({ host: '127.0.0.1', port: process.env.HEALTH_PORT, path: '/health' }, (r) => process.exit(r.statusCode === 200 ? 0 : 1)).on('error', () => process.exit(1))"
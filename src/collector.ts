@@ -0,0 +1,76 @@
+import type { Logger } from './logger.ts';
+import type { OllamaMetrics } from './metrics.ts';
+import type { ModelEvent } from './model-events.ts';
+import type { ApiEndpoint, ApiResponse } from './ollama-api.ts';
+import { PsCollector } from './ps-collector.ts';
+import { TagsCollector } from './tags-collector.ts';
+import { VersionCollector } from './version-collector.ts';
+
+/**
+ * What a collector gets from the exporter for the one target it collects from
+ */
+export interface CollectorContext {
+    /** Value of the `ollama_host` label */
+    host: string;
+    metrics: OllamaMetrics;
+    /** Adds the target and collector to every entry */
+    logger: Logger;
+    /** Aborted on shutdown, collectors must not update metrics from aborted requests */
+    signal: AbortSignal;
+    /**
+     * Time an operation into the scrape duration histogram, with the running scrape as exemplar
+     */
+    startOperationTimer(operation: string): () => void;
+    /**
+     * Call an Ollama API endpoint of the target. Resolves to null when the request failed or the
+     * response was invalid, which has already been logged and counted.
+     */
+    request<E extends ApiEndpoint>(endpoint: E, method?: string, body?: unknown): Promise<ApiResponse<E> | null>;
+    /**
+     * Report a model transition, counted and emitted as a `model` event by the exporter
+     */
+    publish(event: Omit<ModelEvent, 'host' | 'timestamp'>): void;
+}
+
+/**
+ * A source of metrics for a single Ollama target. Each target gets its own instance,
+ * so a collector can keep the state it needs to remove stale series.
+ */
+export interface Collector {
+    /**
+     * Update the collector's metrics, resolving to false if anything could not be collected
+     */
+    collect(): Promise<boolean>;
+    /**
+     * Remove every series the collector has exported
+     */
+    clear(): void;
+    /**
+     * State worth keeping across a restart, it must survive a JSON round trip
+     */
+    snapshot?(): unknown;
+    /**
+     * Continue from the state of a previous run, returns false if the state could not be used
+     */
+    restore?(state: unknown): boolean;
+}
+
+/**
+ * Available collectors by the name used in `--collector.<name>` and the `collector` label
+ */
+export const COLLECTORS = {
+    version: VersionCollector,
+    tags: TagsCollector,
+    ps: PsCollector,
+} satisfies Record<string, new (context: CollectorContext) => Collector>;
+
+export type CollectorName = keyof typeof COLLECTORS;
+
+export const COLLECTOR_NAMES = Object.keys(COLLECTORS) as CollectorName[];
+
+/**
+ * Resolve the collector toggles from the configuration, collectors are enabled unless disabled explicitly
+ */
+export function enabledCollectors(toggles: Partial<Record<CollectorName, boolean>>): CollectorName[] {
+    return COLLECTOR_NAMES.filter((name) => toggles[name] ?? true);
+}
@@ -0,0 +1,225 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { ConfigError, configFromEnv, loadConfig, loadConfigFile, loadWebConfig, resolveConfig } from './config.ts';
+
+describe('config', () => {
+    let dir: string;
+
+    beforeEach(() => {
+        dir = mkdtempSync(join(tmpdir(), 'ollama-exporter-config-'));
+    });
+
+    afterEach(() => {
+        rmSync(dir, { recursive: true, force: true });
+    });
+
+    describe('resolveConfig', () => {
+        it('should apply defaults when nothing is configured', () => {
+            const config = resolveConfig({}, {}, {});
+
+            expect(config).toMatchObject({
+                port: 8000,
+                interval: 30,
+                apiTimeout: 30,
+                logLevel: 'INFO',
+                targets: ['localhost:11434'],
+                scrapeOnRequest: false,
+                healthPort: 0,
+                probe: { models: [], interval: 300, timeout: 30, maxTokens: 8, loadedOnly: false },
+            });
+        });
+
+        it('should let CLI flags override env vars and env vars override the config file', () => {
+            const config = resolveConfig(
+                { port: 9000, interval: 60, logLevel: 'DEBUG', probe: { models: ['llama3'], timeout: 5 } },
+                { interval: '45', probe: { timeout: '10' } },
+                { interval: '15' },
+            );
+
+            expect(config.port).toBe(9000);
+            expect(config.interval).toBe(15);
+            expect(config.logLevel).toBe('DEBUG');
+            expect(config.probe.models).toEqual(['llama3']);
+            expect(config.probe.timeout).toBe(10);
+        });
+
+        it('should accept targets as a list or a comma-separated string', () => {
+            expect(resolveConfig({ targets: ['gpu-1', 'gpu-2:11434'] }, {}, {}).targets).toEqual([
+                'gpu-1',
+                'gpu-2:11434',
+            ]);
+            expect(resolveConfig({}, { targets: 'gpu-1, gpu-2' }, {}).targets).toEqual(['gpu-1', 'gpu-2']);
+        });
+
+        it('should normalise the log level and parse boolean strings', () => {
+            const config = resolveConfig({}, { logLevel: 'warning', scrapeOnRequest: 'true' }, {});
+
+            expect(config.logLevel).toBe('WARNING');
+            expect(config.scrapeOnRequest).toBe(true);
+        });
+
+        it('should report every invalid field', () => {
+            expect(() => resolveConfig({ apiTimeout: -1 }, { port: 'abc' }, { logLevel: 'verbose' })).toThrow(
+                ConfigError,
+            );
+
+            try {
+                resolveConfig({ apiTimeout: -1 }, { port: 'abc' }, { logLevel: 'verbose' });
+            } catch (error) {
+                const message = (error as ConfigError).message;
+                expect(message).toContain('port:');
+                expect(message).toContain('apiTimeout:');
+                expect(message).toContain('logLevel:');
+            }
+        });
+
+        it('should reject unknown options and empty target lists', () => {
+            expect(() => resolveConfig({ intervall: 30 }, {}, {})).toThrow(/intervall/);
+            expect(() => resolveConfig({ targets: [] }, {}, {})).toThrow(/At least one Ollama host is required/);
+        });
+
+        it('should validate target URLs and the Ollama connection options', () => {
+            expect(() => resolveConfig({ targets: ['ftp://gpu-1'] }, {}, {})).toThrow(/targets: Unsupported scheme/);
+            expect(() => resolveConfig({ ollama: { bearerToken: 'abc', username: 'admin' } }, {}, {})).toThrow(
+                /ollama.bearerToken: Use either a bearer token or basic auth/,
+            );
+            expect(() => resolveConfig({ ollama: { certFile: 'client.pem' } }, {}, {})).toThrow(/ollama.certFile/);
+        });
+
+        it('should accept headers as a mapping or as "Name: value" entries', () => {
+            expect(resolveConfig({ ollama: { headers: { 'X-Team': 'ml' } } }, {}, {}).ollama.headers).toEqual({
+                'X-Team': 'ml',
+            });
+            expect(resolveConfig({}, { ollama: { headers: 'X-Team: ml, X-Env:prod' } }, {}).ollama.headers).toEqual({
+                'X-Team': 'ml',
+                'X-Env': 'prod',
+            });
+            expect(() => resolveConfig({}, {}, { ollama: { headers: ['X-Team ml'] } })).toThrow(/ollama.headers/);
+        });
+
+        it('should parse static labels and validate model filter patterns', () => {
+            const config = resolveConfig(
+                { models: { exclude: ['-test$'], maxModels: 20 } },
+                { staticLabels: 'datacenter=fra1, gpu_type=a100', models: { include: '^llama' } },
+                {},
+            );
+
+            expect(config.staticLabels).toEqual({ datacenter: 'fra1', gpu_type: 'a100' });
+            expect(config.models).toEqual({ include: ['^llama'], exclude: ['-test$'], split: [], maxModels: 20 });
+            expect(() => resolveConfig({ staticLabels: { 'gpu-type': 'a100' } }, {}, {})).toThrow(/staticLabels/);
+            expect(() => resolveConfig({}, {}, { models: { include: ['llama('] } })).toThrow(/models.include/);
+            expect(() => resolveConfig({}, {}, { models: { split: ['^([^:]+):'] } })).toThrow(/models.split/);
+        });
+
+        it('should merge collector toggles and reject unknown collectors', () => {
+            const config = resolveConfig(
+                { collectors: { ps: false, tags: false } },
+                { collectors: { ps: 'true' } },
+                {},
+            );
+
+            expect(config.collectors).toEqual({ ps: true, tags: false });
+            expect(() => resolveConfig({ collectors: { gpu: true } }, {}, {})).toThrow(/collectors/);
+        });
+    });
+
+    describe('configFromEnv', () => {
+        it('should map env vars and treat empty values as unset', () => {
+            const layer = configFromEnv({
+                PORT: '9100',
+                OLLAMA_HOST: 'gpu-1',
+                LOG_LEVEL: '',
+                PROBE_MODELS: 'llama3',
+                HEALTH_PORT: '8001',
+            });
+
+            expect(layer).toMatchObject({ port: '9100', targets: 'gpu-1', logLevel: undefined, healthPort: '8001' });
+            expect(layer.probe).toMatchObject({ models: 'llama3' });
+        });
+    });
+
+    describe('loadConfigFile', () => {
+        it('should load YAML files', () => {
+            const path = join(dir, 'config.yaml');
+            writeFileSync(path, 'port: 9200\ntargets:\n  - gpu-1:11434\n  - gpu-2:11434\nprobe:\n  models: [llama3]\n');
+
+            const config = loadConfig({}, path, {});
+
+            expect(config.port).toBe(9200);
+            expect(config.targets).toEqual(['gpu-1:11434', 'gpu-2:11434']);
+            expect(config.probe.models).toEqual(['llama3']);
+        });
+
+        it('should load JSON files', () => {
+            const path = join(dir, 'config.json');
+            writeFileSync(path, JSON.stringify({ interval: 10, scrapeOnRequest: true }));
+
+            expect(loadConfigFile(path)).toEqual({ interval: 10, scrapeOnRequest: true });
+        });
+
+        it('should treat an empty file as no configuration', () => {
+            const path = join(dir, 'empty.yaml');
+            writeFileSync(path, '');
+
+            expect(loadConfigFile(path)).toEqual({});
+        });
+
+        it('should raise a ConfigError for missing or malformed files', () => {
+            expect(() => loadConfigFile(join(dir, 'missing.yaml'))).toThrow(ConfigError);
+
+            const path = join(dir, 'broken.json');
+            writeFileSync(path, '{ "port": ');
+            expect(() => loadConfigFile(path)).toThrow(/Could not parse config file/);
+
+            const listPath = join(dir, 'list.yaml');
+            writeFileSync(listPath, '- a\n- b\n');
+            expect(() => loadConfigFile(listPath)).toThrow(/must contain a mapping/);
+        });
+    });
+
+    describe('loadWebConfig', () => {
+        it('should load an exporter-toolkit web config', () => {
+            const path = join(dir, 'web.yml');
+            writeFileSync(
+                path,
+                [
+                    'tls_server_config:',
+                    '  cert_file: server.crt',
+                    '  key_file: server.key',
+                    'basic_auth_users:',
+                    '  prometheus: $2y$10$X0h1gDsPszWURQaxFN.2i.DbiP/NfGFZ8rU6pWdUn7Wo/ccRg0DQa',
+                ].join('\n'),
+            );
+
+            expect(loadWebConfig(path)).toEqual({
+                tls_server_config: {
+                    cert_file: 'server.crt',
+                    key_file: 'server.key',
+                    client_auth_type: 'NoClientCert',
+                    min_version: 'TLS12',
+                },
+                basic_auth_users: { prometheus: '$2y$10$X0h1gDsPszWURQaxFN.2i.DbiP/NfGFZ8rU6pWdUn7Wo/ccRg0DQa' },
+            });
+        });
+
+        it('should reject plain text passwords and client verification without a CA', () => {
+            const path = join(dir, 'web.json');
+            writeFileSync(
+                path,
+                JSON.stringify({
+                    tls_server_config: {
+                        cert_file: 'server.crt',
+                        key_file: 'server.key',
+                        client_auth_type: 'RequireAndVerifyClientCert',
+                    },
+                    basic_auth_users: { prometheus: 'secret' },
+                }),
+            );
+
+            expect(() => loadWebConfig(path)).toThrow(/basic_auth_users.prometheus: Expected a bcrypt hash/);
+            expect(() => loadWebConfig(path)).toThrow(/tls_server_config.client_ca_file/);
+        });
+    });
+});
@@ -0,0 +1,433 @@
+import { readFileSync } from 'node:fs';
+import { extname } from 'node:path';
+import { parse as parseYaml } from 'yaml';
+import { z } from 'zod';
+import { COLLECTOR_NAMES } from './collector.ts';
+import { parseOllamaHost } from './host.ts';
+import { parseStatsdAddress } from './statsd.ts';
+
+/**
+ * Raised when the configuration file cannot be read or the merged configuration is invalid
+ */
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+type ConfigLayer = Record<string, unknown>;
+
+export function parseList(value: string): string[] {
+    return value
+        .split(',')
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
+}
+
+// Environment variables and CLI flags are strings, the config file may use native types
+const booleanSchema = z.union([z.boolean(), z.enum(['true', 'false']).transform((value) => value === 'true')]);
+
+const listSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? parseList(value) : value),
+    z.array(z.string().trim().min(1)),
+);
+
+// Headers come as a mapping from the config file or as "Name: value" entries from the CLI and environment
+const headersSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? parseList(value) : value),
+    z.union([
+        z.record(z.string(), z.string()),
+        z.array(z.string().regex(/^[^:\s]+:/, 'Expected a header in the form "Name: value"')).transform((entries) =>
+            Object.fromEntries(
+                entries.map((entry) => {
+                    const separator = entry.indexOf(':');
+                    return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+                }),
+            ),
+        ),
+    ]),
+);
+
+// Config files use a mapping, the CLI and environment "name=value" entries
+const staticLabelsSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? parseList(value) : value),
+    z
+        .union([
+            z.record(z.string(), z.string()),
+            z.array(z.string().regex(/^[^=]+=/, 'Expected a label in the form "name=value"')).transform((entries) =>
+                Object.fromEntries(
+                    entries.map((entry) => {
+                        const separator = entry.indexOf('=');
+                        return [entry.slice(0, separator).trim(), entry.slice(separator + 1).trim()];
+                    }),
+                ),
+            ),
+        ])
+        .refine(
+            (labels) =>
+                Object.keys(labels).every((name) => /^[a-zA-Z_][a-zA-Z0-9_]*$/.test(name) && !name.startsWith('__')),
+            'Invalid label name, expected letters, digits and underscores',
+        ),
+);
+
+// A single pattern from the CLI or environment, a list from the config file
+const patternListSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? [value] : value),
+    z.array(
+        z.string().refine((pattern) => {
+            try {
+                return Boolean(new RegExp(pattern));
+            } catch {
+                return false;
+            }
+        }, 'Invalid regular expression'),
+    ),
+);
+
+const logFormatSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? value.toLowerCase() : value),
+    z.enum(['text', 'json']),
+);
+
+const secondsSchema = z.coerce.number().int().positive();
+
+const logLevelSchema = z.preprocess(
+    (value) => (typeof value === 'string' ? value.toUpperCase() : value),
+    z.enum(['DEBUG', 'INFO', 'WARNING', 'ERROR']),
+);
+
+const ollamaConnectionConfigSchema = z
+    .strictObject({
+        bearerToken: z.string().optional(),
+        username: z.string().optional(),
+        password: z.string().optional(),
+        headers: headersSchema.default({}),
+        caFile: z.string().optional(),
+        certFile: z.string().optional(),
+        keyFile: z.string().optional(),
+        insecureSkipVerify: booleanSchema.default(false),
+        retries: z.coerce.number().int().min(0).default(2),
+        retryBackoff: z.coerce.number().min(0).default(0.2),
+        circuitBreakerThreshold: z.coerce.number().int().min(0).default(5),
+        circuitBreakerCooldown: z.coerce.number().positive().default(30),
+    })
+    .refine((config) => !(config.bearerToken && config.username), {
+        message: 'Use either a bearer token or basic auth, not both',
+        path: ['bearerToken'],
+    })
+    .refine((config) => !config.certFile === !config.keyFile, {
+        message: 'A client certificate requires a key and vice versa',
+        path: ['certFile'],
+    });
+
+const generationProbeConfigSchema = z.strictObject({
+    models: listSchema.default([]),
+    interval: secondsSchema.default(300),
+    timeout: secondsSchema.default(30),
+    maxTokens: z.coerce.number().int().positive().default(8),
+    loadedOnly: booleanSchema.default(false),
+});
+
+const otlpConfigSchema = z.strictObject({
+    endpoint: z.union([z.url({ protocol: /^https?$/ }), z.literal('')]).default(''),
+    protocol: z.enum(['http/protobuf', 'http/json']).default('http/protobuf'),
+    interval: secondsSchema.default(60),
+    timeout: secondsSchema.default(10),
+    headers: headersSchema.default({}),
+    bufferSize: z.coerce.number().int().positive().default(10),
+});
+
+const pushConfigSchema = z
+    .strictObject({
+        mode: z.enum(['none', 'pushgateway', 'remote-write']).default('none'),
+        url: z.union([z.url({ protocol: /^https?$/ }), z.literal('')]).default(''),
+        job: z.string().trim().min(1).default('ollama-exporter'),
+        bearerToken: z.string().optional(),
+        username: z.string().optional(),
+        password: z.string().optional(),
+        timeout: secondsSchema.default(10),
+    })
+    .refine((config) => !(config.bearerToken && config.username), {
+        message: 'Use either a bearer token or basic auth, not both',
+        path: ['bearerToken'],
+    })
+    .refine((config) => config.mode === 'none' || config.url, {
+        message: 'A push URL is required when pushing metrics',
+        path: ['url'],
+    });
+
+const statsdConfigSchema = z.strictObject({
+    address: z
+        .string()
+        .refine((address) => {
+            try {
+                return !address || Boolean(parseStatsdAddress(address));
+            } catch {
+                return false;
+            }
+        }, 'Invalid StatsD address, expected host:port')
+        .default(''),
+    prefix: z.string().trim().default('ollama'),
+    flushInterval: secondsSchema.default(10),
+});
+
+const modelFilterConfigSchema = z.strictObject({
+    include: patternListSchema.default([]),
+    exclude: patternListSchema.default([]),
+    split: patternListSchema
+        .refine(
+            (patterns) => patterns.every((pattern) => /\(\?<[a-zA-Z_]\w*>/.test(pattern)),
+            'Split patterns need named groups, e.g. ^(?<model>[^:]+):(?<tag>.+)$',
+        )
+        .default([]),
+    maxModels: z.coerce.number().int().min(0).default(0),
+});
+
+export const exporterConfigSchema = z.strictObject({
+    port: z.coerce.number().int().min(1).max(65535).default(8000),
+    interval: secondsSchema.default(30),
+    apiTimeout: secondsSchema.default(30),
+    logLevel: logLevelSchema.default('INFO'),
+    logFormat: logFormatSchema.default('text'),
+    logSampleInterval: z.coerce.number().min(0).default(0),
+    targets: listSchema
+        .refine((targets) => targets.length > 0, 'At least one Ollama host is required')
+        .superRefine((targets, ctx) => {
+            for (const target of targets) {
+                try {
+                    parseOllamaHost(target);
+                } catch (error) {
+                    ctx.addIssue({ code: 'custom', message: (error as Error).message });
+                }
+            }
+        })
+        .default(['localhost:11434']),
+    ollama: ollamaConnectionConfigSchema.prefault({}),
+    scrapeOnRequest: booleanSchema.default(false),
+    minScrapeAge: z.coerce.number().min(0).default(0),
+    proxyTarget: z
+        .string()
+        .refine((target) => {
+            try {
+                return !target || Boolean(parseOllamaHost(target));
+            } catch {
+                return false;
+            }
+        }, 'Invalid proxy target, expected host:port or an http(s) URL')
+        .default(''),
+    enableReloadEndpoint: booleanSchema.default(false),
+    shutdownGracePeriod: z.coerce.number().min(0).default(10),
+    webConfigFile: z.string().optional(),
+    // Plain HTTP /health on the loopback interface, outside the web config, 0 disables it
+    healthPort: z.coerce.number().int().min(0).max(65535).default(0),
+    stateFile: z.string().optional(),
+    stateSaveInterval: secondsSchema.default(60),
+    collectors: z.partialRecord(z.enum(COLLECTOR_NAMES), booleanSchema.optional()).default({}),
+    probe: generationProbeConfigSchema.prefault({}),
+    otlp: otlpConfigSchema.prefault({}),
+    push: pushConfigSchema.prefault({}),
+    statsd: statsdConfigSchema.prefault({}),
+    staticLabels: staticLabelsSchema.default({}),
+    models: modelFilterConfigSchema.prefault({}),
+});
+
+export type ExporterConfig = z.infer<typeof exporterConfigSchema>;
+
+/**
+ * Map the supported environment variables onto the config file structure
+ */
+export function configFromEnv(env: NodeJS.ProcessEnv): ConfigLayer {
+    // Empty variables are treated as unset, matching the shell-style `${VAR:-default}` convention
+    const value = (name: string): string | undefined => env[name] || undefined;
+
+    return {
+        port: value('PORT'),
+        interval: value('INTERVAL'),
+        apiTimeout: value('API_TIMEOUT'),
+        logLevel: value('LOG_LEVEL'),
+        logFormat: value('LOG_FORMAT'),
+        logSampleInterval: value('LOG_SAMPLE_INTERVAL'),
+        targets: value('OLLAMA_HOST'),
+        ollama: {
+            bearerToken: value('OLLAMA_BEARER_TOKEN'),
+            username: value('OLLAMA_USERNAME'),
+            password: value('OLLAMA_PASSWORD'),
+            headers: value('OLLAMA_HEADERS'),
+            caFile: value('OLLAMA_CA_FILE'),
+            certFile: value('OLLAMA_CERT_FILE'),
+            keyFile: value('OLLAMA_KEY_FILE'),
+            insecureSkipVerify: value('OLLAMA_INSECURE_SKIP_VERIFY'),
+            retries: value('OLLAMA_RETRIES'),
+            retryBackoff: value('OLLAMA_RETRY_BACKOFF'),
+            circuitBreakerThreshold: value('OLLAMA_CIRCUIT_BREAKER_THRESHOLD'),
+            circuitBreakerCooldown: value('OLLAMA_CIRCUIT_BREAKER_COOLDOWN'),
+        },
+        scrapeOnRequest: value('SCRAPE_ON_REQUEST'),
+        minScrapeAge: value('MIN_SCRAPE_AGE'),
+        proxyTarget: value('PROXY_TARGET'),
+        webConfigFile: value('WEB_CONFIG_FILE'),
+        healthPort: value('HEALTH_PORT'),
+        enableReloadEndpoint: value('ENABLE_RELOAD_ENDPOINT'),
+        shutdownGracePeriod: value('SHUTDOWN_GRACE_PERIOD'),
+        stateFile: value('STATE_FILE'),
+        stateSaveInterval: value('STATE_SAVE_INTERVAL'),
+        collectors: Object.fromEntries(COLLECTOR_NAMES.map((name) => [name, value(`COLLECTOR_${name.toUpperCase()}`)])),
+        probe: {
+            models: value('PROBE_MODELS'),
+            interval: value('PROBE_INTERVAL'),
+            timeout: value('PROBE_TIMEOUT'),
+            maxTokens: value('PROBE_MAX_TOKENS'),
+            loadedOnly: value('PROBE_LOADED_ONLY'),
+        },
+        otlp: {
+            endpoint: value('OTLP_ENDPOINT'),
+            protocol: value('OTLP_PROTOCOL'),
+            interval: value('OTLP_INTERVAL'),
+            timeout: value('OTLP_TIMEOUT'),
+            headers: value('OTLP_HEADERS'),
+            bufferSize: value('OTLP_BUFFER_SIZE'),
+        },
+        push: {
+            mode: value('PUSH_MODE'),
+            url: value('PUSH_URL'),
+            job: value('PUSH_JOB'),
+            bearerToken: value('PUSH_BEARER_TOKEN'),
+            username: value('PUSH_USERNAME'),
+            password: value('PUSH_PASSWORD'),
+            timeout: value('PUSH_TIMEOUT'),
+        },
+        statsd: {
+            address: value('STATSD_ADDRESS'),
+            prefix: value('STATSD_PREFIX'),
+            flushInterval: value('STATSD_FLUSH_INTERVAL'),
+        },
+        staticLabels: value('STATIC_LABELS'),
+        models: {
+            include: value('MODEL_INCLUDE'),
+            exclude: value('MODEL_EXCLUDE'),
+            split: value('MODEL_SPLIT'),
+            maxModels: value('MAX_MODELS'),
+        },
+    };
+}
+
+/**
+ * Read a YAML or JSON configuration file. Files ending in .json are parsed as JSON, everything else as YAML.
+ */
+export function loadConfigFile(path: string): ConfigLayer {
+    let content: string;
+    try {
+        content = readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new ConfigError(`Could not read config file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    let data: unknown;
+    try {
+        data = extname(path).toLowerCase() === '.json' ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+        throw new ConfigError(`Could not parse config file ${path}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    // An empty YAML file parses to null and simply means "use the defaults"
+    if (data === null || data === undefined) {
+        return {};
+    }
+    if (typeof data !== 'object' || Array.isArray(data)) {
+        throw new ConfigError(`Config file ${path} must contain a mapping of options`);
+    }
+    return data as ConfigLayer;
+}
+
+function isPlainObject(value: unknown): value is ConfigLayer {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function mergeLayers(...layers: ConfigLayer[]): ConfigLayer {
+    const result: ConfigLayer = {};
+    for (const layer of layers) {
+        for (const [key, value] of Object.entries(layer)) {
+            if (value === undefined) {
+                continue;
+            }
+            const current = result[key];
+            result[key] = isPlainObject(value) && isPlainObject(current) ? mergeLayers(current, value) : value;
+        }
+    }
+    return result;
+}
+
+/**
+ * Merge configuration layers and validate the result.
+ * Precedence from lowest to highest: defaults, config file, environment variables, CLI flags.
+ */
+export function resolveConfig(file: ConfigLayer, env: ConfigLayer, cli: ConfigLayer): ExporterConfig {
+    const result = exporterConfigSchema.safeParse(mergeLayers(file, env, cli));
+    if (!result.success) {
+        throw new ConfigError(`Invalid configuration:\n${formatIssues(result.error)}`);
+    }
+    return result.data;
+}
+
+function formatIssues(error: z.ZodError): string {
+    return error.issues.map((issue) => `  - ${issue.path.join('.') || '(root)'}: ${issue.message}`).join('\n');
+}
+
+/**
+ * Load the configuration file (if any), environment and CLI flags into a validated config
+ */
+export function loadConfig(
+    cli: ConfigLayer,
+    configFile?: string,
+    env: NodeJS.ProcessEnv = process.env,
+): ExporterConfig {
+    const file = configFile ? loadConfigFile(configFile) : {};
+    return resolveConfig(file, configFromEnv(env), cli);
+}
+
+const clientAuthTypeSchema = z.enum([
+    'NoClientCert',
+    'RequestClientCert',
+    'RequireAnyClientCert',
+    'VerifyClientCertIfGiven',
+    'RequireAndVerifyClientCert',
+]);
+
+const VERIFYING_CLIENT_AUTH_TYPES: string[] = ['VerifyClientCertIfGiven', 'RequireAndVerifyClientCert'];
+
+/**
+ * Web configuration of the exporter's own HTTP endpoint. Uses the file format of the
+ * Prometheus exporter-toolkit, so existing web config files can be reused.
+ */
+export const webConfigSchema = z.strictObject({
+    tls_server_config: z
+        .strictObject({
+            cert_file: z.string().min(1),
+            key_file: z.string().min(1),
+            client_auth_type: clientAuthTypeSchema.default('NoClientCert'),
+            client_ca_file: z.string().optional(),
+            min_version: z.enum(['TLS10', 'TLS11', 'TLS12', 'TLS13']).default('TLS12'),
+        })
+        .refine((tls) => !VERIFYING_CLIENT_AUTH_TYPES.includes(tls.client_auth_type) || tls.client_ca_file, {
+            message: 'Verifying client certificates requires client_ca_file',
+            path: ['client_ca_file'],
+        })
+        .optional(),
+    basic_auth_users: z
+        .record(z.string(), z.string().regex(/^\$2[abxy]\$\d{2}\$/, 'Expected a bcrypt hash'))
+        .default({}),
+});
+
+export type WebConfig = z.infer<typeof webConfigSchema>;
+
+/**
+ * Read and validate a web configuration file
+ */
+export function loadWebConfig(path: string): WebConfig {
+    const result = webConfigSchema.safeParse(loadConfigFile(path));
+    if (!result.success) {
+        throw new ConfigError(`Invalid web configuration in ${path}:\n${formatIssues(result.error)}`);
+    }
+    return result.data;
+}
@@ -1,38 +1,26 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Registry } from 'prom-client';
 import { OllamaExporter } from './exporter.ts';
-import type { HttpClient, HttpResponse } from './http-client.ts';
-import { OLLAMA_MODEL_INFO, OLLAMA_MODEL_SIZE_BYTES, OLLAMA_MODEL_MODIFIED_TIMESTAMP } from './metrics.ts';
+import { logger } from './logger.ts';
+import { HttpRequestError, type HttpClient, type HttpResponse } from './http-client.ts';
 
 // Mock the index.ts module to prevent it from running during tests
 vi.mock('./index.ts', () => ({
     VERSION: '1.0.0',
 }));
 
-// Mock the metrics module
-vi.mock('./metrics.ts', () => ({
-    EXPORTER_INFO: { labels: vi.fn().mockReturnValue({ set: vi.fn() }) },
-    OLLAMA_UP: { set: vi.fn() },
-    OLLAMA_VERSION_INFO: { labels: vi.fn().mockReturnValue({ set: vi.fn() }) },
-    OLLAMA_MODELS_TOTAL: { set: vi.fn() },
-    OLLAMA_MODEL_INFO: { labels: vi.fn().mockReturnValue({ set: vi.fn() }), remove: vi.fn() },
-    OLLAMA_MODEL_SIZE_BYTES: { labels: vi.fn().mockReturnValue({ set: vi.fn() }), remove: vi.fn() },
-    OLLAMA_MODEL_MODIFIED_TIMESTAMP: { labels: vi.fn().mockReturnValue({ set: vi.fn() }), remove: vi.fn() },
-    OLLAMA_RUNNING_MODELS: { labels: vi.fn().mockReturnValue({ set: vi.fn() }), remove: vi.fn() },
-    OLLAMA_MODEL_MEMORY_BYTES: { labels: vi.fn().mockReturnValue({ set: vi.fn() }), remove: vi.fn() },
-    OLLAMA_EXPORTER_SCRAPE_DURATION: { startTimer: vi.fn().mockReturnValue(vi.fn()) },
-    OLLAMA_EXPORTER_SCRAPES_TOTAL: { labels: vi.fn().mockReturnValue({ inc: vi.fn() }) },
-    OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP: { set: vi.fn() },
-}));
-
 // Mock the logger module
-vi.mock('./logger.ts', () => ({
-    logger: {
+vi.mock('./logger.ts', () => {
+    const logger = {
         info: vi.fn(),
         error: vi.fn(),
         warning: vi.fn(),
         debug: vi.fn(),
-    },
-}));
+        child: vi.fn(),
+    };
+    logger.child.mockReturnValue(logger);
+    return { logger };
+});
 
 interface RequestHistoryEntry {
     url: string;
@@ -48,6 +36,10 @@ class MockHttpClient implements HttpClient {
     private responses = new Map<string, HttpResponse<unknown> | null>();
     private requestHistory: RequestHistoryEntry[] = [];
 
+    /**
+     * Register a response by endpoint name (e.g. 'version') or by full URL for per-host responses.
+     * A null response makes the request fail as if the connection was refused.
+     */
     setResponse<T>(endpoint: string, response: HttpResponse<T> | null): void {
         this.responses.set(endpoint, response as HttpResponse<unknown>);
     }
@@ -60,24 +52,35 @@ class MockHttpClient implements HttpClient {
         this.requestHistory = [];
     }
 
-    async request<T>(url: string, options?: RequestHistoryEntry['options']): Promise<HttpResponse<T> | null> {
+    async request<T>(url: string, options?: RequestHistoryEntry['options']): Promise<HttpResponse<T>> {
         this.requestHistory.push({ url, options });
 
         // Extract endpoint from full URL (e.g., 'http://localhost:11434/api/version' -> 'version')
         const urlParts = url.split('/');
         const endpoint = urlParts[urlParts.length - 1];
 
-        return this.responses.get(endpoint) as HttpResponse<T> | null;
+        const response = this.responses.has(url) ? this.responses.get(url) : this.responses.get(endpoint);
+        if (!response) {
+            throw new HttpRequestError('connection_refused', 'Connection refused');
+        }
+        return response as HttpResponse<T>;
     }
 }
 
+async function metricValues(registry: Registry, name: string): Promise<{ labels: object; value: number }[]> {
+    const metric = registry.getSingleMetric(name);
+    return metric ? (await metric.get()).values : [];
+}
+
 describe('OllamaExporter', () => {
     let exporter: OllamaExporter;
     let mockHttpClient: MockHttpClient;
+    let registry: Registry;
 
     beforeEach(() => {
         mockHttpClient = new MockHttpClient();
-        exporter = new OllamaExporter('localhost:11434', 30, mockHttpClient);
+        registry = new Registry();
+        exporter = new OllamaExporter(['localhost:11434'], 30, mockHttpClient, registry);
     });
 
     describe('constructor', () => {
@@ -85,6 +88,17 @@ describe('OllamaExporter', () => {
             expect(exporter).toBeDefined();
             expect(exporter.isShuttingDown()).toBe(false);
         });
+
+        it('should add the default port and drop duplicate targets', () => {
+            const multiExporter = new OllamaExporter(
+                ['gpu-1', 'gpu-1:11434', 'gpu-2:8080'],
+                30,
+                mockHttpClient,
+                new Registry(),
+            );
+
+            expect(multiExporter.getTargets()).toEqual(['gpu-1:11434', 'gpu-2:8080']);
+        });
     });
 
     describe('checkOllamaHealth', () => {
@@ -200,11 +214,13 @@ describe('OllamaExporter', () => {
             await exporter.updateMetrics();
 
             const requests = mockHttpClient.getRequestHistory();
-            expect(requests).toHaveLength(3);
+            expect(requests).toHaveLength(4);
+            // Collectors run concurrently, so only the order within a collector is fixed
             expect(requests.map((r) => r.url)).toEqual([
                 'http://localhost:11434/api/version',
                 'http://localhost:11434/api/tags',
                 'http://localhost:11434/api/ps',
+                'http://localhost:11434/api/show',
             ]);
         });
 
@@ -213,8 +229,140 @@ describe('OllamaExporter', () => {
 
             await exporter.updateMetrics();
 
-            // Should still attempt to call version endpoint
-            expect(mockHttpClient.getRequestHistory()).toHaveLength(1);
+            // Every collector still attempts its endpoint
+            expect(mockHttpClient.getRequestHistory()).toHaveLength(3);
+        });
+
+        it('should count API errors by endpoint and reason', async () => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.1.15' }),
+            });
+            mockHttpClient.setResponse('tags', {
+                ok: false,
+                status: 500,
+                statusText: 'Internal Server Error',
+                json: async () => ({}),
+            });
+            mockHttpClient.setResponse('ps', null);
+
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_exporter_api_errors_total')).toEqual(
+                expect.arrayContaining([
+                    {
+                        labels: { ollama_host: 'localhost:11434', endpoint: '/api/tags', reason: 'http_status' },
+                        value: 1,
+                    },
+                    {
+                        labels: { ollama_host: 'localhost:11434', endpoint: '/api/ps', reason: 'connection_refused' },
+                        value: 1,
+                    },
+                ]),
+            );
+        });
+
+        it('should count API requests by status code and record their duration and size', async () => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                bodySize: 22,
+                json: async () => ({ version: '0.1.15' }),
+            });
+            mockHttpClient.setResponse('tags', {
+                ok: false,
+                status: 500,
+                statusText: 'Internal Server Error',
+                json: async () => ({}),
+            });
+            mockHttpClient.setResponse('ps', null);
+
+            await exporter.updateMetrics();
+
+            const host = 'localhost:11434';
+            expect(await metricValues(registry, 'ollama_exporter_api_requests_total')).toEqual(
+                expect.arrayContaining([
+                    { labels: { ollama_host: host, endpoint: '/api/version', status_code: '200' }, value: 1 },
+                    { labels: { ollama_host: host, endpoint: '/api/tags', status_code: '500' }, value: 1 },
+                    { labels: { ollama_host: host, endpoint: '/api/ps', status_code: 'none' }, value: 1 },
+                ]),
+            );
+            expect(await metricValues(registry, 'ollama_exporter_api_request_duration_seconds')).toContainEqual(
+                expect.objectContaining({
+                    labels: { ollama_host: host, endpoint: '/api/ps' },
+                    metricName: 'ollama_exporter_api_request_duration_seconds_count',
+                    value: 1,
+                }),
+            );
+            expect(await metricValues(registry, 'ollama_exporter_api_response_size_bytes')).toContainEqual(
+                expect.objectContaining({
+                    labels: { ollama_host: host, endpoint: '/api/version' },
+                    metricName: 'ollama_exporter_api_response_size_bytes_sum',
+                    value: 22,
+                }),
+            );
+        });
+
+        it('should export the valid models of a response with a malformed entry', async () => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.12.0' }),
+            });
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [
+                        { name: 'llama3:8b', size: 4661224676, details: {} },
+                        { name: 'qwen3:4b', size: 'large', details: {} },
+                    ],
+                }),
+            });
+            mockHttpClient.setResponse('show', { ok: true, status: 200, statusText: 'OK', json: async () => ({}) });
+
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_model_size_bytes')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', model_name: 'llama3:8b' }, value: 4661224676 },
+            ]);
+            expect(await metricValues(registry, 'ollama_models_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434' }, value: 1 },
+            ]);
+            expect(await metricValues(registry, 'ollama_exporter_response_validation_errors_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', endpoint: '/api/tags' }, value: 1 },
+            ]);
+        });
+
+        it('should skip and report unparseable modification times', async () => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.12.0' }),
+            });
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [{ name: 'llama3:8b', size: 4661224676, modified_at: 'last tuesday', details: {} }],
+                }),
+            });
+            mockHttpClient.setResponse('show', { ok: true, status: 200, statusText: 'OK', json: async () => ({}) });
+
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_model_size_bytes')).toHaveLength(1);
+            expect(await metricValues(registry, 'ollama_model_modified_timestamp_seconds')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_exporter_response_validation_errors_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', endpoint: '/api/tags' }, value: 1 },
+            ]);
         });
 
         it('should remove stale model metrics with full label set for complex model names', async () => {
@@ -277,24 +425,609 @@ describe('OllamaExporter', () => {
 
             await exporter.updateMetrics();
 
-            vi.mocked(OLLAMA_MODEL_INFO.remove).mockClear();
-            vi.mocked(OLLAMA_MODEL_SIZE_BYTES.remove).mockClear();
-            vi.mocked(OLLAMA_MODEL_MODIFIED_TIMESTAMP.remove).mockClear();
+            expect(await metricValues(registry, 'ollama_model_info')).toEqual([
+                {
+                    labels: {
+                        ollama_host: 'localhost:11434',
+                        model_name: complexModelName,
+                        family: 'gemma',
+                        format: 'gguf',
+                        parameter_size: '12B',
+                        quantization_level: 'Q4_K_M',
+                        parent_model: 'unknown',
+                    },
+                    value: 1,
+                },
+            ]);
+            expect(await metricValues(registry, 'ollama_model_size_bytes')).toHaveLength(1);
+            expect(await metricValues(registry, 'ollama_model_modified_timestamp_seconds')).toHaveLength(1);
 
             mockHttpClient.setResponse('tags', tagsWithoutModel);
             await exporter.updateMetrics();
 
-            expect(OLLAMA_MODEL_SIZE_BYTES.remove).toHaveBeenCalledWith(complexModelName);
-            expect(OLLAMA_MODEL_MODIFIED_TIMESTAMP.remove).toHaveBeenCalledWith(complexModelName);
-            expect(OLLAMA_MODEL_INFO.remove).toHaveBeenCalledOnce();
-            expect(OLLAMA_MODEL_INFO.remove).toHaveBeenCalledWith({
-                model_name: complexModelName,
-                family: 'gemma',
-                format: 'gguf',
-                parameter_size: '12B',
-                quantization_level: 'Q4_K_M',
-                parent_model: 'unknown',
+            expect(await metricValues(registry, 'ollama_model_info')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_model_size_bytes')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_model_modified_timestamp_seconds')).toEqual([]);
+        });
+    });
+
+    describe('model metadata', () => {
+        const showResponse: HttpResponse<Record<string, unknown>> = {
+            ok: true,
+            status: 200,
+            statusText: 'OK',
+            json: async () => ({
+                license: 'LLAMA 3 COMMUNITY LICENSE',
+                template: '{{ .Prompt }}',
+                capabilities: ['completion', 'tools'],
+                model_info: {
+                    'general.architecture': 'llama',
+                    'general.parameter_count': 8030261248,
+                    'llama.context_length': 8192,
+                    'llama.embedding_length': 4096,
+                },
+            }),
+        };
+
+        function tagsWithDigest(digest: string): HttpResponse<Record<string, unknown>> {
+            return {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [
+                        {
+                            name: 'llama3:8b',
+                            size: 4661224676,
+                            digest,
+                            modified_at: '2024-05-01T10:00:00Z',
+                            details: { family: 'llama' },
+                        },
+                    ],
+                }),
+            };
+        }
+
+        beforeEach(() => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.5.0' }),
+            });
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            });
+            mockHttpClient.setResponse('show', showResponse);
+        });
+
+        it('should export context window, parameters and capabilities', async () => {
+            mockHttpClient.setResponse('tags', tagsWithDigest('sha-1'));
+
+            await exporter.updateMetrics();
+
+            const showRequest = mockHttpClient.getRequestHistory().find((r) => r.url.endsWith('/show'));
+            expect(showRequest?.options?.method).toBe('POST');
+            expect(showRequest?.options?.body).toBe(JSON.stringify({ model: 'llama3:8b' }));
+
+            const labels = { ollama_host: 'localhost:11434', model_name: 'llama3:8b' };
+            expect(await metricValues(registry, 'ollama_model_context_length')).toEqual([{ labels, value: 8192 }]);
+            expect(await metricValues(registry, 'ollama_model_embedding_length')).toEqual([{ labels, value: 4096 }]);
+            expect(await metricValues(registry, 'ollama_model_parameters')).toEqual([{ labels, value: 8030261248 }]);
+            expect(await metricValues(registry, 'ollama_model_capability')).toEqual([
+                { labels: { ...labels, capability: 'completion' }, value: 1 },
+                { labels: { ...labels, capability: 'tools' }, value: 1 },
+            ]);
+            expect(await metricValues(registry, 'ollama_model_metadata_info')).toEqual([
+                {
+                    labels: { ...labels, architecture: 'llama', has_license: 'true', has_template: 'true' },
+                    value: 1,
+                },
+            ]);
+        });
+
+        it('should only call /api/show again when the digest changes', async () => {
+            const showRequests = (): number =>
+                mockHttpClient.getRequestHistory().filter((r) => r.url.endsWith('/show')).length;
+
+            mockHttpClient.setResponse('tags', tagsWithDigest('sha-1'));
+            await exporter.updateMetrics();
+            await exporter.updateMetrics();
+            expect(showRequests()).toBe(1);
+
+            mockHttpClient.setResponse('tags', tagsWithDigest('sha-2'));
+            await exporter.updateMetrics();
+            expect(showRequests()).toBe(2);
+        });
+
+        it('should remove metadata series when the model is deleted', async () => {
+            mockHttpClient.setResponse('tags', tagsWithDigest('sha-1'));
+            await exporter.updateMetrics();
+
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            });
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_model_capability')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_model_metadata_info')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_model_context_length')).toEqual([]);
+        });
+    });
+
+    describe('running model details', () => {
+        it('should export load size, VRAM ratio, expiry and context length', async () => {
+            vi.useFakeTimers();
+            vi.setSystemTime(new Date('2024-06-01T12:00:00Z'));
+
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.5.0' }),
             });
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            });
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [
+                        {
+                            name: 'llama3:8b',
+                            model: 'llama3:8b',
+                            size: 8000000000,
+                            size_vram: 6000000000,
+                            digest: 'abc123',
+                            expires_at: '2024-06-01T12:04:30Z',
+                            context_length: 8192,
+                            details: { family: 'llama' },
+                        },
+                    ],
+                }),
+            });
+
+            await exporter.updateMetrics();
+
+            const labels = { ollama_host: 'localhost:11434', model_name: 'llama3:8b' };
+            expect(await metricValues(registry, 'ollama_running_model_size_bytes')).toEqual([
+                { labels, value: 8000000000 },
+            ]);
+            expect(await metricValues(registry, 'ollama_running_model_vram_ratio')).toEqual([{ labels, value: 0.75 }]);
+            expect(await metricValues(registry, 'ollama_running_model_expires_in_seconds')).toEqual([
+                { labels, value: 270 },
+            ]);
+            expect(await metricValues(registry, 'ollama_running_model_context_length')).toEqual([
+                { labels, value: 8192 },
+            ]);
+
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            });
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_running_model_vram_ratio')).toEqual([]);
+            expect(await metricValues(registry, 'ollama_running_model_expires_in_seconds')).toEqual([]);
+
+            vi.useRealTimers();
+        });
+    });
+
+    describe('scrape on request', () => {
+        beforeEach(() => {
+            const versionResponse: HttpResponse<{ version: string }> = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.1.15' }),
+            };
+            const emptyResponse: HttpResponse<{ models: [] }> = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            };
+
+            mockHttpClient.setResponse('version', versionResponse);
+            mockHttpClient.setResponse('tags', emptyResponse);
+            mockHttpClient.setResponse('ps', emptyResponse);
+        });
+
+        it('should coalesce concurrent updates into a single scrape', async () => {
+            await Promise.all([exporter.updateMetrics(), exporter.refreshMetrics(0), exporter.updateMetrics()]);
+
+            expect(mockHttpClient.getRequestHistory()).toHaveLength(3);
+        });
+
+        it('should emit updated once per completed update', async () => {
+            const updated = vi.fn();
+            exporter.on('updated', updated);
+
+            await Promise.all([exporter.updateMetrics(), exporter.updateMetrics()]);
+
+            expect(updated).toHaveBeenCalledTimes(1);
+        });
+
+        it('should serve cached metrics younger than the minimum age', async () => {
+            await exporter.refreshMetrics(60);
+            await exporter.refreshMetrics(60);
+
+            expect(mockHttpClient.getRequestHistory()).toHaveLength(3);
+        });
+
+        it('should scrape again once the cached metrics are older than the minimum age', async () => {
+            vi.useFakeTimers();
+
+            await exporter.refreshMetrics(5);
+            vi.advanceTimersByTime(6000);
+            await exporter.refreshMetrics(5);
+
+            expect(mockHttpClient.getRequestHistory()).toHaveLength(6);
+
+            vi.useRealTimers();
+        });
+    });
+
+    describe('multiple targets', () => {
+        it('should scrape each target and keep series of healthy hosts when one goes down', async () => {
+            const multiRegistry = new Registry();
+            const multiExporter = new OllamaExporter(['gpu-1:11434', 'gpu-2:11434'], 30, mockHttpClient, multiRegistry);
+
+            const versionResponse: HttpResponse<{ version: string }> = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.1.15' }),
+            };
+            const tagsResponse: HttpResponse<{
+                models: { name: string; size: number; modified_at: string; details: Record<string, string> }[];
+            }> = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [
+                        {
+                            name: 'llama2:7b',
+                            size: 3826793677,
+                            modified_at: '2023-12-07T09:32:18.757212583Z',
+                            details: { family: 'llama' },
+                        },
+                    ],
+                }),
+            };
+            const psResponse: HttpResponse<{ models: [] }> = {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [] }),
+            };
+
+            mockHttpClient.setResponse('version', versionResponse);
+            mockHttpClient.setResponse('tags', tagsResponse);
+            mockHttpClient.setResponse('ps', psResponse);
+
+            await multiExporter.updateMetrics();
+
+            expect(mockHttpClient.getRequestHistory().map((r) => r.url)).toEqual(
+                expect.arrayContaining(['http://gpu-1:11434/api/tags', 'http://gpu-2:11434/api/tags']),
+            );
+
+            mockHttpClient.setResponse('http://gpu-2:11434/api/version', null);
+
+            await multiExporter.updateMetrics();
+
+            expect(await metricValues(multiRegistry, 'ollama_up')).toEqual(
+                expect.arrayContaining([
+                    { labels: { ollama_host: 'gpu-1:11434' }, value: 1 },
+                    { labels: { ollama_host: 'gpu-2:11434' }, value: 0 },
+                ]),
+            );
+            expect(await metricValues(multiRegistry, 'ollama_model_size_bytes')).toEqual(
+                expect.arrayContaining([
+                    { labels: { ollama_host: 'gpu-1:11434', model_name: 'llama2:7b' }, value: 3826793677 },
+                    { labels: { ollama_host: 'gpu-2:11434', model_name: 'llama2:7b' }, value: 3826793677 },
+                ]),
+            );
+        });
+    });
+
+    describe('reconfigure', () => {
+        it('should add new targets and remove every series of dropped targets', async () => {
+            const multiRegistry = new Registry();
+            const multiExporter = new OllamaExporter(['gpu-1', 'gpu-2'], 30, mockHttpClient, multiRegistry);
+
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.1.15' }),
+            });
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({
+                    models: [{ name: 'llama2:7b', size: 3826793677, modified_at: '2023-12-07T09:32:18Z', details: {} }],
+                }),
+            });
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [{ name: 'llama2:7b', size: 1, size_vram: 1 }] }),
+            });
+
+            await multiExporter.updateMetrics();
+            await multiExporter.reconfigure(['gpu-1', 'gpu-3'], 10);
+
+            expect(multiExporter.getTargets()).toEqual(['gpu-1:11434', 'gpu-3:11434']);
+
+            const hostsOf = async (name: string): Promise<unknown[]> =>
+                (await metricValues(multiRegistry, name)).map((v) => (v.labels as { ollama_host: string }).ollama_host);
+
+            for (const name of [
+                'ollama_exporter_build_info',
+                'ollama_up',
+                'ollama_version_info',
+                'ollama_model_size_bytes',
+                'ollama_model_info',
+                'ollama_running_models',
+                'ollama_exporter_scrapes_total',
+            ]) {
+                expect(await hostsOf(name)).not.toContain('gpu-2:11434');
+            }
+            expect(await hostsOf('ollama_exporter_build_info')).toEqual(['gpu-1:11434', 'gpu-3:11434']);
+
+            mockHttpClient.clearRequestHistory();
+            await multiExporter.updateMetrics();
+
+            const requests = mockHttpClient.getRequestHistory();
+            expect(requests.map((r) => r.url)).toContain('http://gpu-3:11434/api/tags');
+            expect(requests.every((r) => r.options?.timeout === 10000)).toBe(true);
+        });
+    });
+
+    describe('collectors', () => {
+        beforeEach(() => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.12.0' }),
+            });
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: [{ name: 'llama3:8b', size: 1, size_vram: 1 }] }),
+            });
+        });
+
+        it('should only run the enabled collectors and report each one', async () => {
+            const collectorRegistry = new Registry();
+            const collectorExporter = new OllamaExporter(['localhost'], 30, mockHttpClient, collectorRegistry, [
+                'version',
+                'ps',
+            ]);
+
+            await collectorExporter.updateMetrics();
+
+            expect(mockHttpClient.getRequestHistory().map((r) => r.url)).not.toContain(
+                'http://localhost:11434/api/tags',
+            );
+            expect(await metricValues(collectorRegistry, 'ollama_exporter_collector_success')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', collector: 'version' }, value: 1 },
+                { labels: { ollama_host: 'localhost:11434', collector: 'ps' }, value: 1 },
+            ]);
+            expect(await metricValues(collectorRegistry, 'ollama_exporter_collector_duration_seconds')).toHaveLength(2);
+        });
+
+        it('should report a failing collector without affecting the others', async () => {
+            await exporter.updateMetrics();
+
+            expect(await metricValues(registry, 'ollama_exporter_collector_success')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', collector: 'version' }, value: 1 },
+                { labels: { ollama_host: 'localhost:11434', collector: 'tags' }, value: 0 },
+                { labels: { ollama_host: 'localhost:11434', collector: 'ps' }, value: 1 },
+            ]);
+            expect(await metricValues(registry, 'ollama_running_models')).toHaveLength(1);
+            expect(await metricValues(registry, 'ollama_exporter_scrapes_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', status: 'error' }, value: 1 },
+            ]);
+        });
+
+        it('should remove the series of collectors disabled on reconfigure', async () => {
+            await exporter.updateMetrics();
+            await exporter.reconfigure(['localhost'], 30, ['version', 'tags']);
+
+            expect(await metricValues(registry, 'ollama_running_models')).toEqual([]);
+            expect(
+                (await metricValues(registry, 'ollama_exporter_collector_success')).map(
+                    (v) => (v.labels as { collector: string }).collector,
+                ),
+            ).toEqual(['version', 'tags']);
+
+            mockHttpClient.clearRequestHistory();
+            await exporter.updateMetrics();
+            expect(mockHttpClient.getRequestHistory().map((r) => r.url)).not.toContain('http://localhost:11434/api/ps');
+        });
+    });
+
+    describe('model events', () => {
+        const setModels = (tags: object[], running: object[]): void => {
+            mockHttpClient.setResponse('tags', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: tags }),
+            });
+            mockHttpClient.setResponse('ps', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ models: running }),
+            });
+        };
+
+        beforeEach(() => {
+            mockHttpClient.setResponse('version', {
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                json: async () => ({ version: '0.12.0' }),
+            });
+            mockHttpClient.setResponse('show', { ok: true, status: 200, statusText: 'OK', json: async () => ({}) });
+        });
+
+        it('should emit and count transitions between scrapes but not for the initial state', async () => {
+            const events: unknown[] = [];
+            exporter.on('model', (event) => events.push(event));
+
+            setModels([{ name: 'llama3:8b', size: 1, digest: 'aaa' }], [{ name: 'llama3:8b' }]);
+            await exporter.updateMetrics();
+            expect(events).toEqual([]);
+
+            setModels(
+                [
+                    { name: 'llama3:8b', size: 1, digest: 'bbb' },
+                    { name: 'qwen3:4b', size: 1, digest: 'ccc' },
+                ],
+                [{ name: 'qwen3:4b', digest: 'ccc' }],
+            );
+            await exporter.updateMetrics();
+
+            expect(events).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({ type: 'updated', model: 'llama3:8b', previousDigest: 'aaa' }),
+                    expect.objectContaining({ type: 'pulled', model: 'qwen3:4b', host: 'localhost:11434' }),
+                    expect.objectContaining({ type: 'loaded', model: 'qwen3:4b' }),
+                    expect.objectContaining({ type: 'unloaded', model: 'llama3:8b' }),
+                ]),
+            );
+            expect(events).toHaveLength(4);
+
+            setModels([{ name: 'qwen3:4b', size: 1, digest: 'ccc' }], []);
+            await exporter.updateMetrics();
+
+            expect(events.slice(4)).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({ type: 'deleted', model: 'llama3:8b' }),
+                    expect.objectContaining({ type: 'unloaded', model: 'qwen3:4b' }),
+                ]),
+            );
+            expect(await metricValues(registry, 'ollama_model_pulls_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', model_name: 'llama3:8b' }, value: 1 },
+                { labels: { ollama_host: 'localhost:11434', model_name: 'qwen3:4b' }, value: 1 },
+            ]);
+            expect(await metricValues(registry, 'ollama_model_loads_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', model_name: 'qwen3:4b' }, value: 1 },
+            ]);
+            expect(await metricValues(registry, 'ollama_model_unloads_total')).toHaveLength(2);
+            expect(await metricValues(registry, 'ollama_model_deletions_total')).toHaveLength(1);
+        });
+    });
+
+    describe('snapshot', () => {
+        const respond = (endpoint: string, body: object): void =>
+            mockHttpClient.setResponse(endpoint, { ok: true, status: 200, statusText: 'OK', json: async () => body });
+
+        it('should continue counters, baselines and cached metadata after a restore', async () => {
+            respond('version', { version: '0.12.0' });
+            respond('tags', { models: [{ name: 'llama3:8b', size: 1, digest: 'aaa' }] });
+            respond('show', { capabilities: ['completion'] });
+            respond('ps', { models: [{ name: 'llama3:8b' }] });
+            await exporter.updateMetrics();
+            const snapshot = JSON.parse(JSON.stringify(await exporter.snapshot()));
+
+            expect(Object.keys(snapshot.targets)).toEqual(['localhost:11434']);
+            expect(snapshot.targets['localhost:11434'].ps.running).toEqual(['llama3:8b']);
+
+            const restoredRegistry = new Registry();
+            const restored = new OllamaExporter(['localhost:11434'], 30, mockHttpClient, restoredRegistry);
+            const events: unknown[] = [];
+            restored.on('model', (event) => events.push(event));
+            restored.restore({ targets: { 'localhost:11434': { ps: { residency: 'invalid' } } }, counters: {} });
+            restored.restore({
+                targets: { ...snapshot.targets, 'gpu-1:11434': snapshot.targets['localhost:11434'] },
+                counters: snapshot.counters,
+            });
+
+            respond('tags', {
+                models: [
+                    { name: 'llama3:8b', size: 1, digest: 'aaa' },
+                    { name: 'qwen3:4b', size: 1, digest: 'ccc' },
+                ],
+            });
+            respond('ps', { models: [] });
+            mockHttpClient.clearRequestHistory();
+            await restored.updateMetrics();
+
+            expect(events).toEqual(
+                expect.arrayContaining([
+                    expect.objectContaining({ type: 'pulled', model: 'qwen3:4b' }),
+                    expect.objectContaining({ type: 'unloaded', model: 'llama3:8b' }),
+                ]),
+            );
+            expect(events).toHaveLength(2);
+            const showRequests = mockHttpClient.getRequestHistory().filter((entry) => entry.url.endsWith('/show'));
+            expect(showRequests.map((entry) => entry.options?.body)).toEqual([JSON.stringify({ model: 'qwen3:4b' })]);
+            expect(await metricValues(restoredRegistry, 'ollama_exporter_scrapes_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', status: 'success' }, value: 2 },
+            ]);
+            expect(logger.warning).toHaveBeenCalledWith('Ignoring invalid saved state', { collector: 'ps' });
+        });
+
+        it('should skip counters of targets that are no longer configured', async () => {
+            exporter.restore({
+                targets: {},
+                counters: {
+                    OLLAMA_EXPORTER_SCRAPES_TOTAL: [
+                        { labels: { ollama_host: 'localhost:11434', status: 'error' }, value: 3 },
+                        { labels: { ollama_host: 'gpu-1:11434', status: 'error' }, value: 5 },
+                    ],
+                },
+            });
+
+            expect(await metricValues(registry, 'ollama_exporter_scrapes_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', status: 'error' }, value: 3 },
+            ]);
+        });
+
+        it('should skip counter samples whose labels do not match the metric', async () => {
+            exporter.restore({
+                targets: {},
+                counters: {
+                    OLLAMA_EXPORTER_SCRAPES_TOTAL: [
+                        { labels: { ollama_host: 'localhost:11434', status: 'error', instance: 'a' }, value: 3 },
+                        { labels: { ollama_host: 'localhost:11434' }, value: 4 },
+                        { labels: { ollama_host: 'localhost:11434', status: 'success' }, value: 5 },
+                    ],
+                    OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL: [{ labels: { endpoint: '/api/tags' }, value: 1 }],
+                },
+            });
+
+            expect(await metricValues(registry, 'ollama_exporter_scrapes_total')).toEqual([
+                { labels: { ollama_host: 'localhost:11434', status: 'success' }, value: 5 },
+            ]);
+            expect(await metricValues(registry, 'ollama_exporter_response_validation_errors_total')).toEqual([]);
+            expect(logger.warning).toHaveBeenCalledWith(
+                'Ignoring 3 saved counter samples whose labels do not match the current metrics',
+            );
         });
     });
 
@@ -308,6 +1041,30 @@ describe('OllamaExporter', () => {
             expect(exporter.isShuttingDown()).toBe(true);
             expect(shutdownSpy).toHaveBeenCalled();
         });
+
+        it('should abort in-flight requests and keep the last known state', async () => {
+            const hangingClient: HttpClient = {
+                request: (_url, options) =>
+                    new Promise((_resolve, reject) =>
+                        options?.signal?.addEventListener('abort', () =>
+                            reject(new HttpRequestError('aborted', 'Request was aborted')),
+                        ),
+                    ),
+            };
+            const drainRegistry = new Registry();
+            const drainExporter = new OllamaExporter(['localhost:11434'], 30, hangingClient, drainRegistry);
+
+            const update = drainExporter.updateMetrics();
+            await drainExporter.shutdown();
+            await update;
+
+            expect(await metricValues(drainRegistry, 'ollama_up')).toEqual([]);
+            expect(await metricValues(drainRegistry, 'ollama_exporter_scrapes_total')).toEqual([]);
+
+            // No new scrapes are started once shutting down
+            await drainExporter.updateMetrics();
+            expect(await metricValues(drainRegistry, 'ollama_up')).toEqual([]);
+        });
     });
 
     describe('metrics loop', () => {
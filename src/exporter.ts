@@ -1,265 +1,469 @@
+import { randomBytes } from 'node:crypto';
 import { EventEmitter } from 'node:events';
-import { logger } from './logger.ts';
-import type { HttpClient } from './http-client.ts';
-import {
-    EXPORTER_INFO,
-    OLLAMA_UP,
-    OLLAMA_VERSION_INFO,
-    OLLAMA_MODELS_TOTAL,
-    OLLAMA_MODEL_INFO,
-    OLLAMA_MODEL_SIZE_BYTES,
-    OLLAMA_MODEL_MODIFIED_TIMESTAMP,
-    OLLAMA_RUNNING_MODELS,
-    OLLAMA_MODEL_MEMORY_BYTES,
-    OLLAMA_EXPORTER_SCRAPE_DURATION,
-    OLLAMA_EXPORTER_SCRAPES_TOTAL,
-    OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP,
-} from './metrics.ts';
+import type { Counter, Histogram, Registry } from 'prom-client';
+import { logger, type Logger } from './logger.ts';
+import { HTTP_ERROR_REASONS, HttpRequestError, type HttpClient } from './http-client.ts';
+import { parseOllamaHosts, type OllamaEndpoint } from './host.ts';
+import { createMetrics, type OllamaMetrics } from './metrics.ts';
+import { API_ENDPOINTS, validateResponse, type ApiEndpoint, type ApiResponse } from './ollama-api.ts';
+import type { ExporterEvents, ModelEvent, ModelEventType } from './model-events.ts';
+import type { ModelFilter } from './model-filter.ts';
+import { COLLECTOR_NAMES, COLLECTORS, type Collector, type CollectorName } from './collector.ts';
 import { VERSION } from './index.ts';
 
-interface OllamaModel {
-    name: string;
-    size: number;
-    modified_at: string;
-    details: {
-        family?: string;
-        format?: string;
-        parameter_size?: string;
-        quantization_level?: string;
-        parent_model?: string;
-    };
+interface OllamaTarget {
+    host: string;
+    baseUrl: string;
+    collectors: Map<CollectorName, Collector>;
+    logger: Logger;
+    // Models with lifecycle counter series, needed to remove them later
+    eventModels: Set<string>;
+    // Status code label values recorded per endpoint, needed to remove their series later
+    apiStatusCodes: Set<string>;
+    // Identifies the scrape in progress in logs and scrape duration exemplars
+    scrapeId: string;
 }
 
-interface OllamaRunningModel {
-    name: string;
-    size_vram: number;
+// Counters carried across restarts, the ps collector restores its residency counter itself
+const PERSISTED_COUNTERS = [
+    'OLLAMA_EXPORTER_SCRAPES_TOTAL',
+    'OLLAMA_EXPORTER_API_REQUESTS_TOTAL',
+    'OLLAMA_EXPORTER_API_ERRORS_TOTAL',
+    'OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL',
+    'OLLAMA_MODEL_LOADS_TOTAL',
+    'OLLAMA_MODEL_UNLOADS_TOTAL',
+    'OLLAMA_MODEL_PULLS_TOTAL',
+    'OLLAMA_MODEL_DELETIONS_TOTAL',
+] as const satisfies (keyof OllamaMetrics)[];
+
+type PersistedCounter = (typeof PERSISTED_COUNTERS)[number];
+
+export interface CounterSample {
+    labels: Record<string, string | number>;
+    value: number;
 }
 
-interface OllamaVersionResponse {
-    version: string;
+/**
+ * Collector state per target and collector plus counter values, as saved to the state file
+ */
+export interface ExporterSnapshot {
+    targets: Record<string, Partial<Record<CollectorName, unknown>>>;
+    counters: Partial<Record<PersistedCounter, CounterSample[]>>;
 }
 
-interface OllamaTagsResponse {
-    models: OllamaModel[];
-}
-
-interface OllamaPsResponse {
-    models: OllamaRunningModel[];
-}
-
-export class OllamaExporter extends EventEmitter {
-    private baseUrl: string;
+/**
+ * Emits `model` for every model transition seen between scrapes, `updated` after each update of all
+ * targets and `shutdown` once shutdown starts
+ */
+export class OllamaExporter extends EventEmitter<ExporterEvents> {
+    private targets: OllamaTarget[];
     private apiTimeout: number;
     private httpClient: HttpClient;
+    private metrics: OllamaMetrics;
     private shutdownEvent = false;
-    private lastModels: Map<string, OllamaModel> = new Map<string, OllamaModel>();
-    private lastRunningModels = new Set<string>();
     private metricsInterval?: NodeJS.Timeout;
-
-    constructor(ollamaHost: string, apiTimeout: number, httpClient: HttpClient) {
+    private pendingUpdate?: Promise<void>;
+    // Aborted on shutdown so requests to an unresponsive Ollama do not hold up the exit
+    private readonly abortController = new AbortController();
+    private lastUpdateTime = 0;
+    private collectorNames: CollectorName[];
+    private readonly modelFilter?: ModelFilter;
+    // Counter incremented per model event type, updates are pulls of a new digest
+    private readonly lifecycleCounters: Record<ModelEventType, OllamaMetrics['OLLAMA_MODEL_LOADS_TOTAL']>;
+
+    constructor(
+        ollamaHosts: string[],
+        apiTimeout: number,
+        httpClient: HttpClient,
+        registry: Registry,
+        collectors: CollectorName[] = COLLECTOR_NAMES,
+        modelFilter?: ModelFilter,
+    ) {
         super();
-        const hostWithPort = this.ensurePortInHost(ollamaHost);
-        this.baseUrl = `http://${hostWithPort}/api`;
+        this.modelFilter = modelFilter;
         this.apiTimeout = apiTimeout * 1000; // Convert to milliseconds
         this.httpClient = httpClient;
-
-        EXPORTER_INFO.labels(VERSION, hostWithPort, process.version).set(1);
+        this.metrics = createMetrics(registry);
+        this.lifecycleCounters = {
+            pulled: this.metrics.OLLAMA_MODEL_PULLS_TOTAL,
+            updated: this.metrics.OLLAMA_MODEL_PULLS_TOTAL,
+            deleted: this.metrics.OLLAMA_MODEL_DELETIONS_TOTAL,
+            loaded: this.metrics.OLLAMA_MODEL_LOADS_TOTAL,
+            unloaded: this.metrics.OLLAMA_MODEL_UNLOADS_TOTAL,
+        };
+        this.collectorNames = collectors;
+        this.targets = parseOllamaHosts(ollamaHosts).map((endpoint) => this.createTarget(endpoint));
     }
 
-    isShuttingDown(): boolean {
-        return this.shutdownEvent;
+    private createTarget(endpoint: OllamaEndpoint): OllamaTarget {
+        this.metrics.EXPORTER_INFO.labels(VERSION, endpoint.host, process.version).set(1);
+        const target: OllamaTarget = {
+            host: endpoint.host,
+            baseUrl: `${endpoint.baseUrl}/api`,
+            collectors: new Map(),
+            logger: logger.child({ target: endpoint.host }),
+            eventModels: new Set<string>(),
+            apiStatusCodes: new Set<string>(),
+            scrapeId: '',
+        };
+        this.setCollectors(target, this.collectorNames);
+        return target;
     }
 
-    private ensurePortInHost(host: string): string {
-        if (host.includes(':')) {
-            return host;
+    /**
+     * Create the enabled collectors a target does not have yet and clear and drop the disabled ones
+     */
+    private setCollectors(target: OllamaTarget, names: CollectorName[]): void {
+        for (const [name, collector] of target.collectors) {
+            if (!names.includes(name)) {
+                collector.clear();
+                this.clearCollectorMetrics(target, name);
+                target.collectors.delete(name);
+            }
+        }
+        for (const name of names) {
+            if (!target.collectors.has(name)) {
+                target.collectors.set(
+                    name,
+                    new COLLECTORS[name]({
+                        host: target.host,
+                        metrics: this.metrics,
+                        logger: target.logger.child({ collector: name }),
+                        signal: this.abortController.signal,
+                        startOperationTimer: (operation: string): (() => void) =>
+                            // The exemplar label is not one of the histogram's labels, which the typings cannot express
+                            (this.metrics.OLLAMA_EXPORTER_SCRAPE_DURATION as Histogram<string>).startTimer(
+                                { ollama_host: target.host, operation },
+                                { scrape_id: target.scrapeId },
+                            ),
+                        request: <E extends ApiEndpoint>(
+                            endpoint: E,
+                            method?: string,
+                            body?: unknown,
+                        ): Promise<ApiResponse<E> | null> => this.apiRequest(target, endpoint, method, body),
+                        publish: (event): void => this.publishModelEvent(target, event),
+                    }),
+                );
+            }
         }
-        return `${host}:11434`;
     }
 
-    private modelInfoLabels(model: OllamaModel) {
-        const details = model.details || {};
-        return {
-            model_name: model.name || 'unknown',
-            family: details.family || 'unknown',
-            format: details.format || 'unknown',
-            parameter_size: details.parameter_size || 'unknown',
-            quantization_level: details.quantization_level || 'unknown',
-            parent_model: details.parent_model || 'unknown',
-        };
+    private publishModelEvent(target: OllamaTarget, event: Omit<ModelEvent, 'host' | 'timestamp'>): void {
+        const labels = { ollama_host: target.host, model_name: event.model };
+        this.lifecycleCounters[event.type].inc(labels);
+        target.eventModels.add(event.model);
+
+        target.logger.info(`Model ${event.type}`, { model: event.model });
+        this.emit('model', { ...event, host: target.host, timestamp: new Date().toISOString() });
     }
 
-    private async apiRequest<T>(endpoint: string, method = 'GET', data?: unknown): Promise<T | null> {
-        try {
-            const url = `${this.baseUrl}/${endpoint}`;
-            const headers: Record<string, string> = {
-                'Content-Type': 'application/json',
-            };
+    private clearCollectorMetrics(target: OllamaTarget, collector: CollectorName): void {
+        const labels = { ollama_host: target.host, collector };
+        this.metrics.OLLAMA_EXPORTER_COLLECTOR_SUCCESS.remove(labels);
+        this.metrics.OLLAMA_EXPORTER_COLLECTOR_DURATION.remove(labels);
+    }
 
-            let body: string | undefined;
-            if (data) {
-                body = JSON.stringify(data);
+    /**
+     * Apply a new set of targets, API timeout and collectors. Targets that are kept retain their state,
+     * removed targets have all their series deleted.
+     */
+    async reconfigure(
+        ollamaHosts: string[],
+        apiTimeout: number,
+        collectors: CollectorName[] = this.collectorNames,
+    ): Promise<void> {
+        // Let an in-flight scrape finish so it cannot re-create series of a removed target
+        await this.pendingUpdate;
+
+        const existing = new Map(this.targets.map((target) => [target.host, target]));
+        const endpoints = parseOllamaHosts(ollamaHosts);
+
+        for (const target of this.targets) {
+            if (!endpoints.some((endpoint) => endpoint.host === target.host)) {
+                logger.info(`Removing Ollama target ${target.host}`);
+                this.clearTargetMetrics(target);
             }
+        }
 
-            const response = await this.httpClient.request<T>(url, {
-                method,
-                headers,
-                body,
-                timeout: this.apiTimeout,
-            });
-
-            if (!response) {
-                logger.error(`API request failed for ${endpoint}`);
-                return null;
+        this.targets = endpoints.map((endpoint) => {
+            const target = existing.get(endpoint.host);
+            if (!target) {
+                logger.info(`Adding Ollama target ${endpoint.host}`);
+                return this.createTarget(endpoint);
             }
+            // The scheme may change without changing the target's identity
+            target.baseUrl = `${endpoint.baseUrl}/api`;
+            this.setCollectors(target, collectors);
+            return target;
+        });
+        this.apiTimeout = apiTimeout * 1000;
+        this.collectorNames = collectors;
+    }
 
-            if (!response.ok) {
-                logger.error(`API request failed: ${response.status} ${response.statusText}`);
-                return null;
-            }
+    private clearTargetMetrics(target: OllamaTarget): void {
+        const host = { ollama_host: target.host };
 
-            return await response.json();
-        } catch (error) {
-            if (error instanceof Error) {
-                logger.error(`API request error for ${endpoint}: ${error.message}`);
+        this.metrics.EXPORTER_INFO.remove({ ...host, version: VERSION, node_version: process.version });
+        this.metrics.OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP.remove(host);
+        for (const [name, collector] of target.collectors) {
+            collector.clear();
+            this.clearCollectorMetrics(target, name);
+        }
+        for (const model_name of target.eventModels) {
+            for (const counter of new Set(Object.values(this.lifecycleCounters))) {
+                counter.remove({ ...host, model_name });
             }
-            return null;
         }
-    }
-
-    async checkOllamaHealth(): Promise<boolean> {
-        const versionData = await this.apiRequest<OllamaVersionResponse>('version');
-        if (versionData) {
-            OLLAMA_VERSION_INFO.labels(versionData.version || 'unknown').set(1);
-            return true;
+        for (const status of ['success', 'error']) {
+            this.metrics.OLLAMA_EXPORTER_SCRAPES_TOTAL.remove({ ...host, status });
+        }
+        for (const name of API_ENDPOINTS) {
+            const endpoint = `/api/${name}`;
+            for (const reason of [...HTTP_ERROR_REASONS, 'unknown']) {
+                this.metrics.OLLAMA_EXPORTER_API_ERRORS_TOTAL.remove({ ...host, endpoint, reason });
+            }
+            for (const status_code of target.apiStatusCodes) {
+                this.metrics.OLLAMA_EXPORTER_API_REQUESTS_TOTAL.remove({ ...host, endpoint, status_code });
+            }
+            this.metrics.OLLAMA_EXPORTER_API_REQUEST_DURATION.remove({ ...host, endpoint });
+            this.metrics.OLLAMA_EXPORTER_API_RESPONSE_SIZE_BYTES.remove({ ...host, endpoint });
+            this.metrics.OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL.remove({ ...host, endpoint });
         }
-        return false;
     }
 
-    private async updateModelMetrics(): Promise<boolean> {
-        const endTimer = OLLAMA_EXPORTER_SCRAPE_DURATION.startTimer({ operation: 'list_models' });
-        const data = await this.apiRequest<OllamaTagsResponse>('tags');
-        endTimer();
-
-        if (!data) {
-            return false;
+    /**
+     * Capture the counters and the state of all collectors that keep state worth carrying across a restart
+     */
+    async snapshot(): Promise<ExporterSnapshot> {
+        const counters: ExporterSnapshot['counters'] = {};
+        for (const name of PERSISTED_COUNTERS) {
+            const { values } = await this.metrics[name].get();
+            counters[name] = values.map(({ labels, value }) => ({ labels: labels as CounterSample['labels'], value }));
         }
 
-        try {
-            const models = data.models || [];
-
-            // Remove metrics for models that no longer exist
-            const currentModels = new Set(models.map((m) => m.name || 'unknown'));
-            for (const [oldModelName, oldModel] of this.lastModels) {
-                if (!currentModels.has(oldModelName)) {
-                    OLLAMA_MODEL_SIZE_BYTES.remove(oldModelName);
-                    OLLAMA_MODEL_MODIFIED_TIMESTAMP.remove(oldModelName);
-                    OLLAMA_MODEL_INFO.remove(this.modelInfoLabels(oldModel));
+        const targets: ExporterSnapshot['targets'] = {};
+        for (const target of this.targets) {
+            const state: Partial<Record<CollectorName, unknown>> = {};
+            for (const [name, collector] of target.collectors) {
+                if (collector.snapshot) {
+                    state[name] = collector.snapshot();
                 }
             }
+            targets[target.host] = state;
+        }
+        return { targets, counters };
+    }
 
-            OLLAMA_MODELS_TOTAL.set(models.length);
-
-            for (const model of models) {
-                const name = model.name || 'unknown';
-                const size = model.size || 0;
-                const modifiedAt = model.modified_at || '';
-
-                OLLAMA_MODEL_INFO.labels(this.modelInfoLabels(model)).set(1);
-
-                OLLAMA_MODEL_SIZE_BYTES.labels(name).set(size);
-
-                if (modifiedAt) {
-                    try {
-                        const dt = new Date(modifiedAt);
-                        OLLAMA_MODEL_MODIFIED_TIMESTAMP.labels(name).set(dt.getTime() / 1000);
-                    } catch (e) {
-                        logger.debug(`Could not parse timestamp ${modifiedAt}: ${e}`);
-                    }
+    /**
+     * Continue the counters and hand saved state to the collectors of targets that are still configured.
+     * Must be called before the first scrape.
+     */
+    restore(snapshot: ExporterSnapshot): void {
+        let mismatched = 0;
+        for (const name of PERSISTED_COUNTERS) {
+            // Set from the metric's configuration by prom-client, but not part of its public typings
+            const labelNames = (this.metrics[name] as unknown as { labelNames: string[] }).labelNames;
+            for (const { labels, value } of snapshot.counters[name] ?? []) {
+                // Files written by other versions may hold samples of a different label set, prom-client throws on those
+                const names = Object.keys(labels);
+                if (names.length !== labelNames.length || !names.every((label) => labelNames.includes(label))) {
+                    mismatched++;
+                    continue;
+                }
+                const target = this.targets.find((t) => t.host === labels.ollama_host);
+                if (labels.ollama_host !== undefined && !target) {
+                    continue;
                 }
+                if (target && name === 'OLLAMA_EXPORTER_API_REQUESTS_TOTAL') {
+                    target.apiStatusCodes.add(String(labels.status_code));
+                } else if (target && name.startsWith('OLLAMA_MODEL_')) {
+                    target.eventModels.add(String(labels.model_name));
+                }
+                (this.metrics[name] as Counter<string>).inc(labels, value);
             }
+        }
+        if (mismatched > 0) {
+            logger.warning(
+                `Ignoring ${mismatched} saved counter samples whose labels do not match the current metrics`,
+            );
+        }
 
-            this.lastModels = new Map(models.map((m) => [m.name || 'unknown', m]));
-            return true;
-        } catch (error) {
-            logger.error(`Error processing models: ${error}`);
-            return false;
+        for (const target of this.targets) {
+            const state = snapshot.targets[target.host];
+            for (const [name, collector] of target.collectors) {
+                if (state?.[name] !== undefined && collector.restore && !collector.restore(state[name])) {
+                    target.logger.warning('Ignoring invalid saved state', { collector: name });
+                }
+            }
         }
     }
 
-    private async updateRunningMetrics(): Promise<boolean> {
-        const endTimer = OLLAMA_EXPORTER_SCRAPE_DURATION.startTimer({ operation: 'list_running' });
-        const data = await this.apiRequest<OllamaPsResponse>('ps');
-        endTimer();
+    isShuttingDown(): boolean {
+        return this.shutdownEvent;
+    }
 
-        if (!data) {
-            return false;
-        }
+    getTargets(): string[] {
+        return this.targets.map((target) => target.host);
+    }
 
-        try {
-            // Clear old running model metrics
-            for (const oldModel of this.lastRunningModels) {
-                OLLAMA_RUNNING_MODELS.remove(oldModel);
-                OLLAMA_MODEL_MEMORY_BYTES.remove(oldModel);
-            }
+    private async apiRequest<E extends ApiEndpoint>(
+        target: OllamaTarget,
+        endpoint: E,
+        method = 'GET',
+        data?: unknown,
+    ): Promise<ApiResponse<E> | null> {
+        const labels = { ollama_host: target.host, endpoint: `/api/${endpoint}` };
+        const endTimer = this.metrics.OLLAMA_EXPORTER_API_REQUEST_DURATION.startTimer(labels);
+        let statusCode = 'none';
 
-            const models = data.models || [];
-            const currentRunning = new Set<string>();
+        try {
+            const url = `${target.baseUrl}/${endpoint}`;
+            const headers: Record<string, string> = {
+                'Content-Type': 'application/json',
+            };
 
-            for (const model of models) {
-                const name = model.name || 'unknown';
-                const sizeVram = model.size_vram || 0;
+            let body: string | undefined;
+            if (data) {
+                body = JSON.stringify(data);
+            }
 
-                currentRunning.add(name);
-                OLLAMA_RUNNING_MODELS.labels(name).set(1);
+            const response = await this.httpClient.request<unknown>(url, {
+                method,
+                headers,
+                body,
+                timeout: this.apiTimeout,
+                signal: this.abortController.signal,
+            });
 
-                if (sizeVram > 0) {
-                    OLLAMA_MODEL_MEMORY_BYTES.labels(name).set(sizeVram);
-                }
+            statusCode = String(response.status);
+            if (!response.ok) {
+                throw new HttpRequestError('http_status', `${response.status} ${response.statusText}`);
             }
 
-            this.lastRunningModels = currentRunning;
-            return true;
+            const result = await response.json();
+            if (response.bodySize !== undefined) {
+                this.metrics.OLLAMA_EXPORTER_API_RESPONSE_SIZE_BYTES.observe(labels, response.bodySize);
+            }
+            this.recordApiRequest(target, labels, statusCode, endTimer);
+
+            const validated = validateResponse(endpoint, result);
+            for (const message of validated.errors) {
+                this.metrics.OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL.inc(labels);
+                target.logger.warning(`Invalid response from ${labels.endpoint}: ${message}`, {
+                    endpoint: labels.endpoint,
+                });
+            }
+            return validated.data;
         } catch (error) {
-            logger.error(`Error processing running models: ${error}`);
-            return false;
+            const failure = error instanceof HttpRequestError ? error : undefined;
+            // Requests aborted on shutdown are not failures of Ollama
+            if (failure?.reason !== 'aborted') {
+                const duration = this.recordApiRequest(target, labels, statusCode, endTimer);
+                const reason = failure?.reason ?? 'unknown';
+                this.metrics.OLLAMA_EXPORTER_API_ERRORS_TOTAL.inc({ ...labels, reason });
+                target.logger.error(
+                    `API request to ${labels.endpoint} failed`,
+                    { endpoint: labels.endpoint, duration, reason },
+                    error,
+                );
+            }
+            return null;
         }
     }
 
+    private recordApiRequest(
+        target: OllamaTarget,
+        labels: { ollama_host: string; endpoint: string },
+        statusCode: string,
+        endTimer: () => number,
+    ): number {
+        const duration = endTimer();
+        target.apiStatusCodes.add(statusCode);
+        this.metrics.OLLAMA_EXPORTER_API_REQUESTS_TOTAL.inc({ ...labels, status_code: statusCode });
+        return duration;
+    }
+
+    /**
+     * Check every configured target, returning true only if all of them respond
+     */
+    async checkOllamaHealth(): Promise<boolean> {
+        const results = await Promise.all(this.targets.map((target) => this.apiRequest(target, 'version')));
+        return results.every((result) => result !== null);
+    }
+
+    /**
+     * Scrape all targets concurrently; a failing target does not affect the others.
+     * Calls made while an update is in flight share that update instead of starting another.
+     */
     async updateMetrics(): Promise<void> {
-        let success = true;
+        if (!this.pendingUpdate && !this.shutdownEvent) {
+            this.pendingUpdate = Promise.all(this.targets.map((target) => this.updateTargetMetrics(target)))
+                // The models over the cap are decided once per scrape, not on every render
+                .then(() => this.modelFilter?.update())
+                .then(() => {
+                    this.lastUpdateTime = Date.now();
+                    if (!this.shutdownEvent) {
+                        this.emit('updated');
+                    }
+                })
+                .finally(() => {
+                    this.pendingUpdate = undefined;
+                });
+        }
+        return this.pendingUpdate;
+    }
 
-        try {
-            const ollamaUp = await this.checkOllamaHealth();
-            OLLAMA_UP.set(ollamaUp ? 1 : 0);
-
-            if (!ollamaUp) {
-                success = false;
-                logger.warning('Ollama API is not responding');
-            } else {
-                if (!(await this.updateModelMetrics())) {
-                    success = false;
-                }
+    /**
+     * Update metrics unless the last update finished less than minAge seconds ago
+     */
+    async refreshMetrics(minAge: number): Promise<void> {
+        if (!this.pendingUpdate && Date.now() - this.lastUpdateTime < minAge * 1000) {
+            return;
+        }
+        await this.updateMetrics();
+    }
 
-                if (!(await this.updateRunningMetrics())) {
+    private async updateTargetMetrics(target: OllamaTarget): Promise<void> {
+        const failed: CollectorName[] = [];
+        target.scrapeId = randomBytes(8).toString('hex');
+
+        // Collectors are independent of each other, a failing one does not hold up the rest
+        const results = await Promise.all(
+            [...target.collectors].map(async ([name, collector]) => {
+                const startTime = performance.now();
+                let success: boolean;
+                try {
+                    success = await collector.collect();
+                } catch (error) {
+                    target.logger.error('Collector failed', { collector: name }, error);
                     success = false;
                 }
+                if (!success) {
+                    failed.push(name);
+                }
+                return { name, success, duration: (performance.now() - startTime) / 1000 };
+            }),
+        );
 
-                logger.info(
-                    `Updated metrics: ${this.lastModels.size} total models, ${this.lastRunningModels.size} running`,
-                );
-            }
+        // Requests aborted by a shutdown say nothing about the target, keep the last known state
+        if (this.shutdownEvent) {
+            return;
+        }
 
-            if (success) {
-                OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP.set(Date.now() / 1000);
-            }
-        } catch (error) {
-            logger.error(`Error in metrics update: ${error}`);
-            success = false;
+        for (const { name, success, duration } of results) {
+            const labels = { ollama_host: target.host, collector: name };
+            this.metrics.OLLAMA_EXPORTER_COLLECTOR_SUCCESS.set(labels, success ? 1 : 0);
+            this.metrics.OLLAMA_EXPORTER_COLLECTOR_DURATION.set(labels, duration);
         }
 
-        const status = success ? 'success' : 'error';
-        OLLAMA_EXPORTER_SCRAPES_TOTAL.labels(status).inc();
+        if (failed.length === 0) {
+            this.metrics.OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP.labels(target.host).set(Date.now() / 1000);
+            target.logger.info('Updated metrics', { scrape_id: target.scrapeId });
+        } else {
+            target.logger.info('Updated metrics', { scrape_id: target.scrapeId, failed_collectors: failed.join(',') });
+        }
+        const status = failed.length === 0 ? 'success' : 'error';
+        this.metrics.OLLAMA_EXPORTER_SCRAPES_TOTAL.labels(target.host, status).inc();
     }
 
     startMetricsLoop(interval: number): void {
@@ -269,15 +473,26 @@ export class OllamaExporter extends EventEmitter {
             }
         };
 
+        this.stopMetricsLoop();
         this.metricsInterval = setInterval(metricsLoop, interval * 1000);
     }
 
-    shutdown(): void {
-        logger.info('Shutting down exporter');
-        this.shutdownEvent = true;
+    stopMetricsLoop(): void {
         if (this.metricsInterval) {
             clearInterval(this.metricsInterval);
+            this.metricsInterval = undefined;
         }
+    }
+
+    /**
+     * Stop scraping and abort pending Ollama requests. Resolves once the in-flight scrape, if any, has settled.
+     */
+    async shutdown(): Promise<void> {
+        logger.info('Shutting down exporter');
+        this.shutdownEvent = true;
+        this.stopMetricsLoop();
+        this.abortController.abort();
         this.emit('shutdown');
+        await this.pendingUpdate;
     }
 }
@@ -0,0 +1,169 @@
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { gunzipSync } from 'node:zlib';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Counter, Gauge, Histogram, Registry } from 'prom-client';
+import { acceptsGzip, acceptsOpenMetrics, MetricsExposition } from './exposition.ts';
+import { createRegistry } from './metrics.ts';
+import { ModelFilter } from './model-filter.ts';
+
+class MockResponse extends EventEmitter {
+    status?: number;
+    headers: Record<string, string> = {};
+    body?: string | Buffer;
+
+    writeHead(status: number, headers: Record<string, string>): this {
+        this.status = status;
+        this.headers = headers;
+        return this;
+    }
+
+    end(body: string | Buffer): void {
+        this.body = body;
+    }
+}
+
+async function request(exposition: MetricsExposition, headers: Record<string, string>): Promise<MockResponse> {
+    const res = new MockResponse();
+    await exposition.handle({ headers } as IncomingMessage, res as unknown as ServerResponse);
+    return res;
+}
+
+describe('content negotiation', () => {
+    it.each([
+        [undefined, false],
+        ['*/*', false],
+        ['text/plain;version=0.0.4', false],
+        ['application/openmetrics-text;version=1.0.0', true],
+        ['application/openmetrics-text;version=1.0.0;q=0.5,text/plain;version=0.0.4;q=0.4,*/*;q=0.1', true],
+        ['application/openmetrics-text;version=1.0.0;q=0.2,text/plain;q=0.9', false],
+        ['application/openmetrics-text;version=2.0.0', false],
+        ['application/openmetrics-text;q=0', false],
+    ])('should serve OpenMetrics for Accept: %s -> %s', (accept, expected) => {
+        expect(acceptsOpenMetrics(accept)).toBe(expected);
+    });
+
+    it.each([
+        [undefined, false],
+        ['gzip', true],
+        ['deflate, gzip;q=0.8', true],
+        ['gzip;q=0', false],
+        ['*', true],
+        ['*, gzip;q=0', false],
+        ['identity', false],
+    ])('should compress for Accept-Encoding: %s -> %s', (acceptEncoding, expected) => {
+        expect(acceptsGzip(acceptEncoding)).toBe(expected);
+    });
+});
+
+describe('MetricsExposition', () => {
+    let registry: Registry;
+    let exposition: MetricsExposition;
+
+    beforeEach(() => {
+        registry = createRegistry();
+        exposition = new MetricsExposition(registry);
+
+        new Counter({
+            name: 'ollama_exporter_scrapes_total',
+            help: 'Total number of scrapes',
+            labelNames: ['status'],
+            registers: [registry],
+        }).inc({ status: 'success' }, 3);
+        new Gauge({
+            name: 'ollama_version_info',
+            help: 'Ollama version "information"',
+            labelNames: ['version'],
+            registers: [registry],
+        }).set({ version: '0.12.0' }, 1);
+        new Histogram<string>({
+            name: 'ollama_exporter_scrape_duration_seconds',
+            help: 'Time spent scraping Ollama',
+            labelNames: ['operation'],
+            buckets: [0.1, 1],
+            enableExemplars: true,
+            registers: [registry],
+        }).observe({ labels: { operation: 'list_models' }, value: 0.5, exemplarLabels: { scrape_id: 'abc123' } });
+    });
+
+    it('should serve the classic text format by default', async () => {
+        const res = await request(exposition, {});
+
+        expect(res.headers['Content-Type']).toBe(Registry.PROMETHEUS_CONTENT_TYPE);
+        expect(res.body).toContain('# TYPE ollama_exporter_scrapes_total counter\n');
+        expect(res.body).toContain('ollama_exporter_scrapes_total{status="success"} 3\n');
+        expect(res.body).toContain('ollama_version_info{version="0.12.0"} 1\n');
+        expect(res.body).toContain(
+            'ollama_exporter_scrape_duration_seconds_bucket{le="1",operation="list_models"} 1\n',
+        );
+        expect(res.body).not.toContain('scrape_id');
+        expect(res.body).not.toContain('# EOF');
+    });
+
+    it('should serve OpenMetrics with created series, info metrics and exemplars', async () => {
+        vi.useFakeTimers({ now: Date.parse('2026-01-12T09:00:00.000Z') });
+        try {
+            const res = await request(exposition, { accept: 'application/openmetrics-text;version=1.0.0' });
+
+            expect(res.headers['Content-Type']).toBe(Registry.OPENMETRICS_CONTENT_TYPE);
+            const lines = String(res.body).split('\n');
+            expect(lines).toEqual(
+                expect.arrayContaining([
+                    '# TYPE ollama_exporter_scrapes counter',
+                    'ollama_exporter_scrapes_total{status="success"} 3',
+                    'ollama_exporter_scrapes_created{status="success"} 1768208400',
+                    '# HELP ollama_version Ollama version \\"information\\"',
+                    '# TYPE ollama_version info',
+                    'ollama_version_info{version="0.12.0"} 1',
+                    'ollama_exporter_scrape_duration_seconds_count{operation="list_models"} 1',
+                    'ollama_exporter_scrape_duration_seconds_created{operation="list_models"} 1768208400',
+                ]),
+            );
+            expect(lines).toContainEqual(
+                expect.stringMatching(
+                    /^ollama_exporter_scrape_duration_seconds_bucket\{le="1",operation="list_models"\} 1 # \{scrape_id="abc123"\} 0\.5 \d+/,
+                ),
+            );
+            expect(res.body).toMatch(/\n# EOF\n$/);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should keep the creation time of a series across expositions', async () => {
+        const first = await exposition.openMetrics();
+        await new Promise((resolve) => setTimeout(resolve, 5));
+        const second = await exposition.openMetrics();
+
+        const created = (body: string): string | undefined =>
+            body.split('\n').find((line) => line.startsWith('ollama_exporter_scrapes_created'));
+        expect(created(second)).toBe(created(first));
+    });
+
+    it('should gzip the response when the client accepts it', async () => {
+        const res = await request(exposition, { 'accept-encoding': 'gzip, deflate' });
+
+        expect(res.headers['Content-Encoding']).toBe('gzip');
+        expect(res.headers.Vary).toBe('Accept, Accept-Encoding');
+        expect(gunzipSync(res.body as Buffer).toString()).toContain(
+            'ollama_exporter_scrapes_total{status="success"} 3',
+        );
+    });
+
+    it('should render through the model filter', async () => {
+        const filter = new ModelFilter(registry, { include: [], exclude: ['^llama'], split: [], maxModels: 0 });
+        const size = new Gauge({
+            name: 'ollama_model_size_bytes',
+            help: 'Model size',
+            labelNames: ['model_name'],
+            registers: [registry],
+        });
+        size.set({ model_name: 'llama3:8b' }, 1);
+        size.set({ model_name: 'qwen3:4b' }, 2);
+
+        const res = await request(new MetricsExposition(registry, filter), {});
+
+        expect(res.body).toContain('ollama_model_size_bytes{model_name="qwen3:4b"} 2\n');
+        expect(res.body).not.toContain('llama3');
+    });
+});
@@ -0,0 +1,205 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { promisify } from 'node:util';
+import { gzip as gzipCallback } from 'node:zlib';
+import { Registry } from 'prom-client';
+import { collectMetrics, type ModelFilter } from './model-filter.ts';
+
+const gzip = promisify(gzipCallback);
+
+interface Sample {
+    value: number;
+    labels: Record<string, string | number | undefined>;
+    metricName?: string;
+    exemplar?: { labelSet: Record<string, string | number>; value: number; timestamp: number } | null;
+}
+
+interface MediaRange {
+    type: string;
+    params: Record<string, string>;
+    q: number;
+}
+
+/**
+ * Parse an Accept or Accept-Encoding header into its entries and quality values
+ */
+function parseMediaRanges(header: string | undefined): MediaRange[] {
+    return (header ?? '')
+        .split(',')
+        .map((entry) => {
+            const [type, ...params] = entry.split(';').map((part) => part.trim());
+            const parsed: Record<string, string> = {};
+            for (const param of params) {
+                const separator = param.indexOf('=');
+                if (separator > 0) {
+                    parsed[param.slice(0, separator).trim().toLowerCase()] = param.slice(separator + 1).trim();
+                }
+            }
+            const q = parsed.q === undefined ? 1 : Number(parsed.q);
+            return { type: type.toLowerCase(), params: parsed, q: Number.isNaN(q) ? 0 : q };
+        })
+        .filter((range) => range.type.length > 0);
+}
+
+function quality(ranges: MediaRange[], matches: (range: MediaRange) => boolean): number {
+    return Math.max(0, ...ranges.filter(matches).map((range) => range.q));
+}
+
+/**
+ * Whether the Accept header prefers OpenMetrics 1.0 over the classic text format
+ */
+export function acceptsOpenMetrics(accept: string | undefined): boolean {
+    const ranges = parseMediaRanges(accept);
+    const openMetrics = quality(
+        ranges,
+        (range) =>
+            range.type === 'application/openmetrics-text' &&
+            (range.params.version === undefined || range.params.version === '1.0.0'),
+    );
+    const text = quality(ranges, (range) => ['text/plain', 'text/*', '*/*'].includes(range.type));
+    return openMetrics > 0 && openMetrics >= text;
+}
+
+export function acceptsGzip(acceptEncoding: string | undefined): boolean {
+    const ranges = parseMediaRanges(acceptEncoding);
+    const explicit = ranges.find((range) => range.type === 'gzip');
+    return explicit ? explicit.q > 0 : quality(ranges, (range) => range.type === '*') > 0;
+}
+
+export function formatValue(value: number): string {
+    if (Number.isNaN(value)) {
+        return 'NaN';
+    }
+    if (!Number.isFinite(value)) {
+        return value > 0 ? '+Inf' : '-Inf';
+    }
+    return String(value);
+}
+
+// Label values and help texts share the same escaping in OpenMetrics
+function escape(value: string | number): string {
+    return String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+export function formatLabels(labels: Sample['labels']): string {
+    const entries = Object.entries(labels).filter(([, value]) => value !== undefined);
+    if (entries.length === 0) {
+        return '';
+    }
+    return `{${entries.map(([name, value]) => `${name}="${escape(value as string | number)}"`).join(',')}}`;
+}
+
+function seriesKey(name: string, labels: Sample['labels']): string {
+    return `${name}${formatLabels(Object.fromEntries(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b))))}`;
+}
+
+/**
+ * Serves a registry in the format the scraper asks for: the classic Prometheus text format by default,
+ * OpenMetrics 1.0 with `_created` series and exemplars when preferred by the Accept header, gzip
+ * compressed when Accept-Encoding allows it. Both formats are rendered here, prom-client can only render
+ * a registry in the format it was created with and does not track creation times.
+ */
+export class MetricsExposition {
+    private readonly registry: Registry;
+    private readonly modelFilter?: ModelFilter;
+    // When each counter and histogram series was first exposed, reported as its _created sample
+    private readonly created = new Map<string, number>();
+
+    constructor(registry: Registry, modelFilter?: ModelFilter) {
+        this.registry = registry;
+        this.modelFilter = modelFilter;
+    }
+
+    async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const openMetrics = acceptsOpenMetrics(req.headers.accept);
+        const body = openMetrics ? await this.openMetrics() : await this.text();
+        const headers: Record<string, string> = {
+            'Content-Type': openMetrics ? Registry.OPENMETRICS_CONTENT_TYPE : Registry.PROMETHEUS_CONTENT_TYPE,
+            Vary: 'Accept, Accept-Encoding',
+        };
+
+        if (acceptsGzip(req.headers['accept-encoding'])) {
+            res.writeHead(200, { ...headers, 'Content-Encoding': 'gzip' });
+            res.end(await gzip(body));
+        } else {
+            res.writeHead(200, headers);
+            res.end(body);
+        }
+    }
+
+    /**
+     * Render the registry in the classic Prometheus text format
+     */
+    async text(): Promise<string> {
+        const lines: string[] = [];
+        for (const metric of await collectMetrics(this.registry, this.modelFilter)) {
+            lines.push(`# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`);
+            lines.push(`# TYPE ${metric.name} ${metric.type}`);
+            for (const sample of metric.values as Sample[]) {
+                const name = sample.metricName ?? metric.name;
+                lines.push(`${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`);
+            }
+        }
+        return `${lines.join('\n')}\n`;
+    }
+
+    /**
+     * Render the registry in the OpenMetrics text format
+     */
+    async openMetrics(): Promise<string> {
+        const now = Date.now() / 1000;
+        const seen = new Set<string>();
+        const created = (name: string, labels: Sample['labels']): string => {
+            const key = seriesKey(name, labels);
+            seen.add(key);
+            let timestamp = this.created.get(key);
+            if (timestamp === undefined) {
+                timestamp = now;
+                this.created.set(key, timestamp);
+            }
+            return `${name}_created${formatLabels(labels)} ${timestamp}`;
+        };
+
+        const lines: string[] = [];
+        for (const metric of await collectMetrics(this.registry, this.modelFilter)) {
+            // Typed as an enum by prom-client, but the type name at runtime
+            const kind = String(metric.type);
+            const isInfo = kind === 'gauge' && metric.name.endsWith('_info');
+            let family = metric.name;
+            let type = kind;
+            if (kind === 'counter') {
+                family = metric.name.replace(/_total$/, '');
+            } else if (isInfo) {
+                family = metric.name.slice(0, -'_info'.length);
+                type = 'info';
+            } else if (kind !== 'gauge' && kind !== 'histogram') {
+                type = 'unknown';
+            }
+
+            lines.push(`# HELP ${family} ${escape(metric.help)}`);
+            lines.push(`# TYPE ${family} ${type}`);
+
+            for (const sample of metric.values as Sample[]) {
+                const name = kind === 'counter' ? `${family}_total` : (sample.metricName ?? metric.name);
+                let line = `${name}${formatLabels(sample.labels)} ${formatValue(sample.value)}`;
+                if (sample.exemplar) {
+                    const { labelSet, value, timestamp } = sample.exemplar;
+                    line += ` # ${formatLabels(labelSet) || '{}'} ${formatValue(value)} ${timestamp}`;
+                }
+                lines.push(line);
+
+                // Histograms report it once per series, after the bucket, sum and count samples
+                if (kind === 'counter' || (kind === 'histogram' && name === `${metric.name}_count`)) {
+                    lines.push(created(family, sample.labels));
+                }
+            }
+        }
+
+        // Forget removed series, so a series that comes back later gets a new creation time
+        for (const key of this.created.keys()) {
+            if (!seen.has(key)) {
+                this.created.delete(key);
+            }
+        }
+        return `${lines.join('\n')}\n# EOF\n`;
+    }
+}
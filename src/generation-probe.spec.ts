@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Registry } from 'prom-client';
+import { GenerationProbe, type GenerationProbeOptions } from './generation-probe.ts';
+import { HttpRequestError, type HttpClient, type HttpRequestOptions, type HttpResponse } from './http-client.ts';
+
+vi.mock('./logger.ts', () => {
+    const logger = {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+        child: vi.fn(),
+    };
+    logger.child.mockReturnValue(logger);
+    return { logger };
+});
+
+class MockHttpClient implements HttpClient {
+    readonly requests: { url: string; options?: HttpRequestOptions }[] = [];
+    private responses = new Map<string, HttpResponse<unknown> | null>();
+
+    setResponse<T>(endpoint: string, response: HttpResponse<T> | null): void {
+        this.responses.set(endpoint, response as HttpResponse<unknown>);
+    }
+
+    async request<T>(url: string, options?: HttpRequestOptions): Promise<HttpResponse<T>> {
+        this.requests.push({ url, options });
+        const endpoint = url.split('/').pop() || '';
+        const response = this.responses.get(endpoint);
+        if (!response) {
+            throw new HttpRequestError('connection_refused', 'Connection refused');
+        }
+        return response as HttpResponse<T>;
+    }
+}
+
+function jsonResponse<T>(data: T): HttpResponse<T> {
+    return { ok: true, status: 200, statusText: 'OK', json: async () => data };
+}
+
+async function metricValues(registry: Registry, name: string): Promise<{ labels: object; value: number }[]> {
+    const metric = registry.getSingleMetric(name);
+    return metric ? (await metric.get()).values : [];
+}
+
+describe('GenerationProbe', () => {
+    let httpClient: MockHttpClient;
+    let registry: Registry;
+    const options: GenerationProbeOptions = { models: ['llama3:8b'], timeout: 10, maxTokens: 4, loadedOnly: false };
+    const labels = { ollama_host: 'localhost:11434', model_name: 'llama3:8b' };
+
+    beforeEach(() => {
+        httpClient = new MockHttpClient();
+        registry = new Registry();
+    });
+
+    it('should send a bounded, non-streaming prompt with the probe timeout', async () => {
+        httpClient.setResponse('generate', jsonResponse({}));
+        const probe = new GenerationProbe(['localhost'], httpClient, registry, options);
+
+        await probe.runProbes();
+
+        expect(httpClient.requests).toHaveLength(1);
+        const { url, options: requestOptions } = httpClient.requests[0];
+        expect(url).toBe('http://localhost:11434/api/generate');
+        expect(requestOptions?.timeout).toBe(10000);
+        expect(JSON.parse(requestOptions?.body || '{}')).toMatchObject({
+            model: 'llama3:8b',
+            stream: false,
+            options: { num_predict: 4 },
+        });
+    });
+
+    it('should export time to first token, load duration and tokens per second', async () => {
+        httpClient.setResponse(
+            'generate',
+            jsonResponse({
+                total_duration: 1_500_000_000,
+                load_duration: 1_000_000_000,
+                prompt_eval_duration: 200_000_000,
+                eval_count: 4,
+                eval_duration: 100_000_000,
+            }),
+        );
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, options);
+
+        await probe.runProbes();
+
+        expect(await metricValues(registry, 'ollama_generation_probe_success')).toEqual([{ labels, value: 1 }]);
+        expect(await metricValues(registry, 'ollama_generation_probe_load_duration_seconds')).toEqual([
+            { labels, value: 1 },
+        ]);
+        expect(await metricValues(registry, 'ollama_generation_probe_time_to_first_token_seconds')).toEqual([
+            { labels, value: 1.2 },
+        ]);
+        expect(await metricValues(registry, 'ollama_generation_probe_eval_tokens_per_second')).toEqual([
+            { labels, value: 40 },
+        ]);
+    });
+
+    it('should report failure when the generate request fails', async () => {
+        httpClient.setResponse('generate', null);
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, options);
+
+        await probe.runProbes();
+
+        expect(await metricValues(registry, 'ollama_generation_probe_success')).toEqual([{ labels, value: 0 }]);
+        expect(await metricValues(registry, 'ollama_generation_probe_time_to_first_token_seconds')).toEqual([]);
+    });
+
+    it('should skip models that are not loaded when restricted to loaded models', async () => {
+        httpClient.setResponse('ps', jsonResponse({ models: [{ name: 'qwen2:7b' }] }));
+        httpClient.setResponse('generate', jsonResponse({}));
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, {
+            ...options,
+            models: ['llama3:8b', 'qwen2:7b'],
+            loadedOnly: true,
+        });
+
+        await probe.runProbes();
+
+        const generateRequests = httpClient.requests.filter((r) => r.url.endsWith('/generate'));
+        expect(generateRequests).toHaveLength(1);
+        expect(JSON.parse(generateRequests[0].options?.body || '{}').model).toBe('qwen2:7b');
+    });
+
+    it('should match configured models without a tag against their latest tag', async () => {
+        httpClient.setResponse('ps', jsonResponse({ models: [{ name: 'llama3:latest' }] }));
+        httpClient.setResponse('generate', jsonResponse({}));
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, {
+            ...options,
+            models: ['llama3', 'qwen2'],
+            loadedOnly: true,
+        });
+
+        await probe.runProbes();
+
+        const generateRequests = httpClient.requests.filter((r) => r.url.endsWith('/generate'));
+        expect(generateRequests).toHaveLength(1);
+        expect(JSON.parse(generateRequests[0].options?.body || '{}').model).toBe('llama3');
+    });
+
+    it('should not probe a host whose running models are unknown when restricted to loaded models', async () => {
+        httpClient.setResponse('ps', null);
+        httpClient.setResponse('generate', jsonResponse({}));
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, { ...options, loadedOnly: true });
+
+        await probe.runProbes();
+
+        expect(httpClient.requests.filter((r) => r.url.endsWith('/generate'))).toEqual([]);
+        expect(await metricValues(registry, 'ollama_generation_probe_success')).toEqual([]);
+    });
+
+    it('should drop series of models that are no longer probed after reconfiguring', async () => {
+        httpClient.setResponse('generate', jsonResponse({}));
+        const probe = new GenerationProbe(['localhost:11434'], httpClient, registry, {
+            ...options,
+            models: ['llama3:8b', 'qwen2:7b'],
+        });
+
+        await probe.runProbes();
+        probe.reconfigure(['localhost:11434'], { ...options, models: ['qwen2:7b'] });
+
+        expect(await metricValues(registry, 'ollama_generation_probe_success')).toEqual([
+            { labels: { ...labels, model_name: 'qwen2:7b' }, value: 1 },
+        ]);
+    });
+});
@@ -0,0 +1,207 @@
+import type { Registry } from 'prom-client';
+import { logger } from './logger.ts';
+import type { HttpClient } from './http-client.ts';
+import { parseOllamaHosts, type OllamaEndpoint } from './host.ts';
+import { createGenerationProbeMetrics, type GenerationProbeMetrics } from './metrics.ts';
+
+const PROBE_PROMPT = 'Reply with the single word: ok';
+const NANOSECONDS_PER_SECOND = 1e9;
+
+// Ollama lists models with their tag, a configured name without one means the latest tag
+function withTag(model: string): string {
+    return model.split('/').pop()?.includes(':') ? model : `${model}:latest`;
+}
+
+interface OllamaGenerateResponse {
+    total_duration?: number;
+    load_duration?: number;
+    prompt_eval_duration?: number;
+    eval_count?: number;
+    eval_duration?: number;
+}
+
+interface OllamaPsResponse {
+    models: { name: string }[];
+}
+
+export interface GenerationProbeOptions {
+    models: string[];
+    timeout: number; // seconds
+    maxTokens: number;
+    loadedOnly: boolean;
+}
+
+/**
+ * Periodically sends a tiny prompt to selected models to prove the runner can actually generate
+ */
+export class GenerationProbe {
+    private endpoints: OllamaEndpoint[];
+    private readonly httpClient: HttpClient;
+    private options: GenerationProbeOptions;
+    private readonly metrics: GenerationProbeMetrics;
+    private probeInterval?: NodeJS.Timeout;
+    private running = false;
+    private readonly abortController = new AbortController();
+
+    constructor(ollamaHosts: string[], httpClient: HttpClient, registry: Registry, options: GenerationProbeOptions) {
+        this.endpoints = parseOllamaHosts(ollamaHosts);
+        this.httpClient = httpClient;
+        this.options = options;
+        this.metrics = createGenerationProbeMetrics(registry);
+    }
+
+    /**
+     * Switch to a new set of hosts and probe options. Series of host/model pairs that are
+     * no longer probed are removed; the new options apply from the next round.
+     */
+    reconfigure(ollamaHosts: string[], options: GenerationProbeOptions): void {
+        const endpoints = parseOllamaHosts(ollamaHosts);
+        const hosts = endpoints.map((endpoint) => endpoint.host);
+
+        for (const { host } of this.endpoints) {
+            for (const model of this.options.models) {
+                if (!hosts.includes(host) || !options.models.includes(model)) {
+                    this.removeProbeMetrics(host, model);
+                }
+            }
+        }
+
+        this.endpoints = endpoints;
+        this.options = options;
+    }
+
+    private removeProbeMetrics(host: string, model: string): void {
+        const labels = { ollama_host: host, model_name: model };
+        this.metrics.OLLAMA_GENERATION_PROBE_SUCCESS.remove(labels);
+        this.metrics.OLLAMA_GENERATION_PROBE_DURATION.remove(labels);
+        this.metrics.OLLAMA_GENERATION_PROBE_TTFT.remove(labels);
+        this.metrics.OLLAMA_GENERATION_PROBE_LOAD_DURATION.remove(labels);
+        this.metrics.OLLAMA_GENERATION_PROBE_TOKENS_PER_SECOND.remove(labels);
+    }
+
+    /**
+     * Probe every configured model on every host, one at a time to keep the load on Ollama minimal
+     */
+    async runProbes(): Promise<void> {
+        // Skip a round rather than piling up probes when the previous one is still waiting for Ollama
+        if (this.running) {
+            logger.debug('Previous generation probe still running, skipping');
+            return;
+        }
+
+        this.running = true;
+        try {
+            for (const endpoint of this.endpoints) {
+                const { host } = endpoint;
+                const loaded = this.options.loadedOnly ? await this.loadedModels(endpoint) : null;
+                // Without the running models any probe could load a model, which loadedOnly rules out
+                if (this.options.loadedOnly && !loaded) {
+                    continue;
+                }
+
+                for (const model of this.options.models) {
+                    if (loaded && !loaded.has(withTag(model))) {
+                        logger.debug('Skipping generation probe, model not loaded', { target: host, model });
+                        continue;
+                    }
+                    await this.probe(endpoint, model);
+                }
+            }
+        } finally {
+            this.running = false;
+        }
+    }
+
+    private async loadedModels({ host, baseUrl }: OllamaEndpoint): Promise<Set<string> | null> {
+        try {
+            const response = await this.httpClient.request<OllamaPsResponse>(`${baseUrl}/api/ps`, {
+                timeout: this.options.timeout * 1000,
+                signal: this.abortController.signal,
+            });
+            if (!response.ok) {
+                throw new Error(`${response.status} ${response.statusText}`);
+            }
+            const data = await response.json();
+            return new Set((data.models || []).map((m) => withTag(m.name)));
+        } catch (error) {
+            logger.warning('Could not list running models, skipping generation probes', { target: host }, error);
+            return null;
+        }
+    }
+
+    private async probe({ host, baseUrl }: OllamaEndpoint, model: string): Promise<void> {
+        const labels = { ollama_host: host, model_name: model };
+        const probeLogger = logger.child({ target: host, model });
+        const startTime = Date.now();
+        let data: OllamaGenerateResponse | null = null;
+
+        try {
+            const response = await this.httpClient.request<OllamaGenerateResponse>(`${baseUrl}/api/generate`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({
+                    model,
+                    prompt: PROBE_PROMPT,
+                    stream: false,
+                    options: { num_predict: this.options.maxTokens },
+                }),
+                timeout: this.options.timeout * 1000,
+                signal: this.abortController.signal,
+            });
+
+            if (!response.ok) {
+                probeLogger.error(`Generation probe failed: ${response.status} ${response.statusText}`);
+            } else {
+                data = await response.json();
+            }
+        } catch (error) {
+            if (error instanceof Error) {
+                probeLogger.error('Generation probe failed', error);
+            }
+        }
+
+        // A probe cut short by shutdown says nothing about the model
+        if (this.abortController.signal.aborted) {
+            return;
+        }
+
+        this.metrics.OLLAMA_GENERATION_PROBE_DURATION.labels(labels).set((Date.now() - startTime) / 1000);
+        this.metrics.OLLAMA_GENERATION_PROBE_SUCCESS.labels(labels).set(data ? 1 : 0);
+
+        if (!data) {
+            return;
+        }
+
+        const loadDuration = (data.load_duration || 0) / NANOSECONDS_PER_SECOND;
+        const promptEvalDuration = (data.prompt_eval_duration || 0) / NANOSECONDS_PER_SECOND;
+        this.metrics.OLLAMA_GENERATION_PROBE_LOAD_DURATION.labels(labels).set(loadDuration);
+        this.metrics.OLLAMA_GENERATION_PROBE_TTFT.labels(labels).set(loadDuration + promptEvalDuration);
+
+        if (data.eval_count && data.eval_duration) {
+            this.metrics.OLLAMA_GENERATION_PROBE_TOKENS_PER_SECOND.labels(labels).set(
+                data.eval_count / (data.eval_duration / NANOSECONDS_PER_SECOND),
+            );
+        }
+    }
+
+    start(interval: number): void {
+        this.stop();
+        void this.runProbes();
+        this.probeInterval = setInterval(() => void this.runProbes(), interval * 1000);
+    }
+
+    stop(): void {
+        if (this.probeInterval) {
+            clearInterval(this.probeInterval);
+            this.probeInterval = undefined;
+        }
+    }
+
+    /**
+     * Stop probing for good and abort a probe that is still waiting for Ollama
+     */
+    shutdown(): void {
+        this.stop();
+        this.abortController.abort();
+    }
+}
@@ -0,0 +1,65 @@
+import { isIP } from 'node:net';
+
+/**
+ * Default port of the Ollama API
+ */
+export const DEFAULT_OLLAMA_PORT = 11434;
+
+export interface OllamaEndpoint {
+    /** Identifies the target in the `ollama_host` label: host:port plus the path prefix, if any */
+    host: string;
+    /** Origin and path prefix that API paths such as `/api/tags` are appended to */
+    baseUrl: string;
+}
+
+/**
+ * Parse an Ollama target given as host, host:port, IPv6 literal or full http(s) URL with an optional path prefix.
+ * Bare hosts default to plain HTTP on port 11434, URLs with a scheme to the scheme's default port.
+ */
+export function parseOllamaHost(value: string): OllamaEndpoint {
+    const input = value.trim();
+    const hasScheme = /^[a-z][a-z\d+.-]*:\/\//i.test(input);
+
+    let url: URL;
+    try {
+        // Unbracketed IPv6 literals such as ::1 cannot be told apart from host:port without this check
+        url = new URL(hasScheme ? input : `http://${isIP(input) === 6 ? `[${input}]` : input}`);
+    } catch {
+        throw new Error(`Invalid Ollama host: ${value}`);
+    }
+
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+        throw new Error(`Unsupported scheme in Ollama host ${value}, expected http or https`);
+    }
+    if (url.username || url.password) {
+        throw new Error(`Ollama host ${value} must not contain credentials, use the basic auth options instead`);
+    }
+    if (url.search || url.hash) {
+        throw new Error(`Ollama host ${value} must not contain a query or fragment`);
+    }
+
+    const defaultPort = !hasScheme ? DEFAULT_OLLAMA_PORT : url.protocol === 'https:' ? 443 : 80;
+    // URL drops a port equal to the default of http, so an explicit port of a bare host is read from the input
+    const explicitPort = hasScheme || isIP(input) === 6 ? undefined : /:(\d+)$/.exec(input.split('/')[0])?.[1];
+    const authority = `${url.hostname}:${url.port || (explicitPort && Number(explicitPort)) || defaultPort}`;
+    const pathPrefix = url.pathname.replace(/\/+$/, '');
+
+    return {
+        host: `${authority}${pathPrefix}`,
+        baseUrl: `${url.protocol}//${authority}${pathPrefix}`,
+    };
+}
+
+/**
+ * Parse a list of Ollama targets, dropping entries that resolve to the same target
+ */
+export function parseOllamaHosts(values: string[]): OllamaEndpoint[] {
+    const endpoints = new Map<string, OllamaEndpoint>();
+    for (const value of values) {
+        const endpoint = parseOllamaHost(value);
+        if (!endpoints.has(endpoint.host)) {
+            endpoints.set(endpoint.host, endpoint);
+        }
+    }
+    return [...endpoints.values()];
+}
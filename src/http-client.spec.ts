@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { FetchHttpClient } from './http-client.ts';
+import { ConfigError } from './config.ts';
+import { FetchHttpClient, HttpRequestError, loadHttpClientOptions, withoutCredentials } from './http-client.ts';
 
 describe('FetchHttpClient', () => {
     let httpClient: FetchHttpClient;
@@ -29,7 +30,7 @@ describe('FetchHttpClient', () => {
                 ok: true,
                 status: 200,
                 statusText: 'OK',
-                json: async (): Promise<Record<string, unknown>> => ({ message: 'success' }),
+                text: async (): Promise<string> => '{"message":"success"}',
             };
 
             mockFetch.mockResolvedValue(mockResponse);
@@ -40,6 +41,7 @@ describe('FetchHttpClient', () => {
             expect(response?.ok).toBe(true);
             expect(response?.status).toBe(200);
             expect(await response?.json()).toEqual({ message: 'success' });
+            expect(response?.bodySize).toBe(21);
 
             expect(mockFetch).toHaveBeenCalledWith(
                 'http://example.com/api/test',
@@ -80,25 +82,53 @@ describe('FetchHttpClient', () => {
             );
         });
 
-        it('should handle network errors', async (): Promise<void> => {
+        it('should classify network errors', async (): Promise<void> => {
             mockFetch.mockRejectedValue(new Error('Network error'));
 
-            const response = await httpClient.request('http://example.com/api/test');
+            await expect(httpClient.request('http://example.com/api/test')).rejects.toMatchObject({
+                name: 'HttpRequestError',
+                reason: 'network',
+            });
+        });
 
-            expect(response).toBeNull();
+        it('should classify refused connections from the error cause', async (): Promise<void> => {
+            const cause = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:11434'), { code: 'ECONNREFUSED' });
+            mockFetch.mockRejectedValue(new TypeError('fetch failed', { cause }));
+
+            await expect(httpClient.request('http://example.com/api/test')).rejects.toMatchObject({
+                reason: 'connection_refused',
+            });
         });
 
         it('should handle timeout', async (): Promise<void> => {
-            // Mock a request that simulates an abort due to timeout
-            mockFetch.mockImplementation(() =>
-                Promise.reject(new DOMException('The operation was aborted', 'AbortError')),
+            // Never answers, so only the timeout can end the request
+            mockFetch.mockImplementation(
+                (_url, init?: RequestInit) =>
+                    new Promise((_resolve, reject) =>
+                        init?.signal?.addEventListener('abort', () =>
+                            reject(new DOMException('The operation was aborted', 'AbortError')),
+                        ),
+                    ),
             );
 
-            const response = await httpClient.request('http://example.com/api/test', {
-                timeout: 100, // 100ms timeout
+            await expect(
+                httpClient.request('http://example.com/api/test', {
+                    timeout: 10,
+                }),
+            ).rejects.toMatchObject({ reason: 'timeout' });
+        });
+
+        it('should report unparsable bodies as invalid JSON', async (): Promise<void> => {
+            mockFetch.mockResolvedValue({
+                ok: true,
+                status: 200,
+                statusText: 'OK',
+                text: async (): Promise<string> => '<html>',
             });
 
-            expect(response).toBeNull();
+            const response = await httpClient.request('http://example.com/api/test');
+
+            await expect(response.json()).rejects.toMatchObject({ reason: 'invalid_json' });
         });
 
         it('should return response even when not ok', async (): Promise<void> => {
@@ -161,5 +191,173 @@ describe('FetchHttpClient', () => {
                 }),
             );
         });
+
+        it('should send the configured headers and let request headers override them', async (): Promise<void> => {
+            mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK', json: async () => ({}) });
+            const client = new FetchHttpClient(mockFetch as typeof fetch, {
+                headers: { Authorization: 'Bearer secret', 'X-Team': 'ml' },
+            });
+
+            await client.request('http://example.com/api/test', { headers: { 'X-Team': 'infra' } });
+
+            expect(mockFetch).toHaveBeenCalledWith(
+                'http://example.com/api/test',
+                expect.objectContaining({ headers: { Authorization: 'Bearer secret', 'X-Team': 'infra' } }),
+            );
+            expect(mockFetch.mock.calls[0][1].dispatcher).toBeUndefined();
+        });
+
+        it('should use a dedicated dispatcher when TLS options are configured', async (): Promise<void> => {
+            mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK', json: async () => ({}) });
+            const client = new FetchHttpClient(mockFetch as typeof fetch, { tls: { rejectUnauthorized: false } });
+
+            await client.request('https://example.com/api/test');
+
+            expect(mockFetch.mock.calls[0][1].dispatcher).toBeDefined();
+        });
+
+        it('should abort on the provided signal even when a timeout is set', async (): Promise<void> => {
+            mockFetch.mockImplementation(
+                (_url, init?: RequestInit) =>
+                    new Promise((_resolve, reject) =>
+                        init?.signal?.addEventListener('abort', () => reject(new Error())),
+                    ),
+            );
+
+            const controller = new AbortController();
+            const request = httpClient.request('http://example.com/api/test', {
+                signal: controller.signal,
+                timeout: 60000,
+            });
+            controller.abort();
+
+            await expect(request).rejects.toMatchObject({ reason: 'aborted' });
+        });
+    });
+});
+
+describe('FetchHttpClient resilience', () => {
+    const ok = { ok: true, status: 200, statusText: 'OK', json: async (): Promise<unknown> => ({}) };
+    const unavailable = {
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable',
+        json: async (): Promise<unknown> => ({}),
+    };
+    let mockFetch: ReturnType<typeof vi.fn>;
+
+    beforeEach(() => {
+        mockFetch = vi.fn<typeof fetch>();
+    });
+
+    it('should retry failed GET requests and return the first success', async (): Promise<void> => {
+        mockFetch.mockRejectedValueOnce(new Error('reset')).mockResolvedValueOnce(unavailable).mockResolvedValue(ok);
+        const client = new FetchHttpClient(mockFetch as typeof fetch, { retries: 2, retryBackoff: 1 });
+
+        const response = await client.request('http://example.com/api/tags');
+
+        expect(response.status).toBe(200);
+        expect(mockFetch).toHaveBeenCalledTimes(3);
+    });
+
+    it('should return the last response once retries are exhausted', async (): Promise<void> => {
+        mockFetch.mockResolvedValue(unavailable);
+        const client = new FetchHttpClient(mockFetch as typeof fetch, { retries: 1, retryBackoff: 1 });
+
+        expect((await client.request('http://example.com/api/tags')).status).toBe(503);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should not retry POST requests or client errors', async (): Promise<void> => {
+        mockFetch.mockRejectedValueOnce(new Error('reset')).mockResolvedValue({ ...ok, ok: false, status: 404 });
+        const client = new FetchHttpClient(mockFetch as typeof fetch, { retries: 2, retryBackoff: 1 });
+
+        await expect(client.request('http://example.com/api/generate', { method: 'POST' })).rejects.toThrow(
+            HttpRequestError,
+        );
+        expect((await client.request('http://example.com/api/show')).status).toBe(404);
+        expect(mockFetch).toHaveBeenCalledTimes(2);
+    });
+
+    it('should open the circuit after repeated failures and half-open after the cooldown', async (): Promise<void> => {
+        vi.useFakeTimers();
+        try {
+            mockFetch.mockRejectedValue(new Error('down'));
+            const client = new FetchHttpClient(mockFetch as typeof fetch, {
+                circuitBreakerThreshold: 2,
+                circuitBreakerCooldown: 30_000,
+            });
+
+            await expect(client.request('http://gpu-1/api/tags')).rejects.toMatchObject({ reason: 'network' });
+            await expect(client.request('http://gpu-1/api/tags')).rejects.toMatchObject({ reason: 'network' });
+            await expect(client.request('http://gpu-1/api/tags')).rejects.toMatchObject({ reason: 'circuit_open' });
+            expect(mockFetch).toHaveBeenCalledTimes(2);
+
+            // Other hosts are unaffected
+            mockFetch.mockResolvedValue(ok);
+            expect((await client.request('http://gpu-2/api/tags')).status).toBe(200);
+
+            vi.advanceTimersByTime(30_000);
+            expect((await client.request('http://gpu-1/api/tags')).status).toBe(200);
+            expect((await client.request('http://gpu-1/api/tags')).status).toBe(200);
+        } finally {
+            vi.useRealTimers();
+        }
+    });
+
+    it('should keep circuit state for a bounded number of hosts', async (): Promise<void> => {
+        mockFetch.mockResolvedValue(ok);
+        const client = new FetchHttpClient(mockFetch as typeof fetch, { circuitBreakerThreshold: 2 });
+
+        for (let index = 0; index < 150; index++) {
+            await client.request(`http://probe-${index}/api/tags`);
+        }
+
+        expect(client.getCircuitCount()).toBe(100);
+        expect(new FetchHttpClient(mockFetch as typeof fetch).getCircuitCount()).toBe(0);
+    });
+});
+
+describe('loadHttpClientOptions', () => {
+    const connection = {
+        headers: {},
+        insecureSkipVerify: false,
+        retries: 2,
+        retryBackoff: 0.2,
+        circuitBreakerThreshold: 5,
+        circuitBreakerCooldown: 30,
+    };
+
+    it('should build bearer and basic auth headers', (): void => {
+        expect(loadHttpClientOptions({ ...connection, bearerToken: 'secret' }).headers).toEqual({
+            Authorization: 'Bearer secret',
+        });
+        expect(loadHttpClientOptions({ ...connection, username: 'admin', password: 'pw' }).headers).toEqual({
+            Authorization: `Basic ${Buffer.from('admin:pw').toString('base64')}`,
+        });
+    });
+
+    it('should only create TLS options when something is configured', (): void => {
+        expect(loadHttpClientOptions(connection).tls).toBeUndefined();
+        expect(loadHttpClientOptions({ ...connection, insecureSkipVerify: true }).tls).toEqual({
+            rejectUnauthorized: false,
+        });
+    });
+
+    it('should raise a ConfigError for unreadable certificate files', (): void => {
+        expect(() => loadHttpClientOptions({ ...connection, caFile: '/nonexistent/ca.pem' })).toThrow(ConfigError);
+    });
+});
+
+describe('withoutCredentials', () => {
+    it('should drop headers and the client certificate but keep server verification', (): void => {
+        const options = withoutCredentials({
+            headers: { Authorization: 'Bearer secret', 'X-Team': 'ml' },
+            tls: { ca: 'ca', cert: 'cert', key: 'key', rejectUnauthorized: false },
+            retries: 2,
+        });
+
+        expect(options).toEqual({ headers: {}, tls: { ca: 'ca', rejectUnauthorized: false }, retries: 2 });
+        expect(withoutCredentials({ tls: { cert: 'cert', key: 'key' } }).tls).toBeUndefined();
     });
 });
@@ -1,3 +1,9 @@
+import { readFileSync } from 'node:fs';
+import { setTimeout as delay } from 'node:timers/promises';
+import { Agent } from 'undici';
+import { ConfigError, type ExporterConfig } from './config.ts';
+import { logger } from './logger.ts';
+
 /**
  * HTTP client interface for abstracting HTTP operations
  */
@@ -6,9 +12,10 @@ export interface HttpClient {
      * Make an HTTP request
      * @param url The URL to request
      * @param options Request options
-     * @returns Response or null if request failed
+     * @returns The response, whatever its HTTP status
+     * @throws HttpRequestError when no response was received
      */
-    request<T>(url: string, options?: HttpRequestOptions): Promise<HttpResponse<T> | null>;
+    request<T>(url: string, options?: HttpRequestOptions): Promise<HttpResponse<T>>;
 }
 
 export interface HttpRequestOptions {
@@ -19,49 +26,335 @@ export interface HttpRequestOptions {
     signal?: AbortSignal;
 }
 
+/**
+ * Connection settings applied to every request to Ollama
+ */
+export interface HttpClientOptions {
+    headers?: Record<string, string>;
+    tls?: {
+        ca?: string;
+        cert?: string;
+        key?: string;
+        rejectUnauthorized?: boolean;
+    };
+    /** Additional attempts for GET requests that fail with a retryable error */
+    retries?: number;
+    /** Base delay in milliseconds of the jittered exponential backoff between attempts */
+    retryBackoff?: number;
+    /** Consecutive failures after which requests to a host fail fast; 0 disables the circuit breaker */
+    circuitBreakerThreshold?: number;
+    /** Milliseconds an open circuit waits before letting a trial request through */
+    circuitBreakerCooldown?: number;
+}
+
 export interface HttpResponse<T> {
     ok: boolean;
     status: number;
     statusText: string;
+    /** Size of the body in bytes, known once json() has resolved */
+    bodySize?: number;
+    /**
+     * @throws HttpRequestError with reason `invalid_json` when the body is not valid JSON
+     */
     json(): Promise<T>;
 }
 
+export const HTTP_ERROR_REASONS = [
+    'timeout',
+    'connection_refused',
+    'dns',
+    'tls',
+    'network',
+    'aborted',
+    'circuit_open',
+    'http_status',
+    'invalid_json',
+] as const;
+
+export type HttpErrorReason = (typeof HTTP_ERROR_REASONS)[number];
+
+/**
+ * Raised when a request to Ollama fails, with the reason as a stable value for metric labels
+ */
+export class HttpRequestError extends Error {
+    readonly reason: HttpErrorReason;
+
+    constructor(reason: HttpErrorReason, message: string) {
+        super(message);
+        this.name = 'HttpRequestError';
+        this.reason = reason;
+    }
+}
+
+// Statuses worth retrying: Ollama or a proxy in front of it is busy or restarting
+const RETRYABLE_STATUSES = new Set([429, 502, 503, 504]);
+const RETRYABLE_REASONS = new Set<HttpErrorReason>(['timeout', 'connection_refused', 'dns', 'network']);
+const MAX_RETRY_DELAY = 10_000;
+// Circuits kept for the least recently requested hosts, probes can name any number of them
+const MAX_CIRCUITS = 100;
+
+const TLS_ERROR_CODES = new Set([
+    'CERT_HAS_EXPIRED',
+    'DEPTH_ZERO_SELF_SIGNED_CERT',
+    'ERR_TLS_CERT_ALTNAME_INVALID',
+    'SELF_SIGNED_CERT_IN_CHAIN',
+    'UNABLE_TO_GET_ISSUER_CERT_LOCALLY',
+    'UNABLE_TO_VERIFY_LEAF_SIGNATURE',
+]);
+
+function errorCode(error: unknown): string | undefined {
+    // fetch wraps the socket error in a TypeError('fetch failed') with the original as the cause
+    const cause = error instanceof Error && error.cause instanceof Error ? error.cause : error;
+    return (cause as { code?: string } | undefined)?.code;
+}
+
+function classifyError(error: unknown, timedOut: boolean, aborted: boolean): HttpRequestError {
+    const message = error instanceof Error ? error.message : String(error);
+    const code = errorCode(error);
+
+    if (timedOut || code === 'UND_ERR_CONNECT_TIMEOUT' || code === 'UND_ERR_HEADERS_TIMEOUT') {
+        return new HttpRequestError('timeout', `Request timed out: ${message}`);
+    }
+    if (aborted || (error instanceof Error && error.name === 'AbortError')) {
+        return new HttpRequestError('aborted', 'Request was aborted');
+    }
+    if (code === 'ECONNREFUSED') {
+        return new HttpRequestError('connection_refused', 'Connection refused');
+    }
+    if (code === 'ENOTFOUND' || code === 'EAI_AGAIN') {
+        return new HttpRequestError('dns', `Could not resolve host: ${code}`);
+    }
+    if (code && (TLS_ERROR_CODES.has(code) || code.startsWith('ERR_TLS') || code.startsWith('ERR_SSL'))) {
+        return new HttpRequestError('tls', `TLS error: ${code}`);
+    }
+    return new HttpRequestError('network', code ? `${message} (${code})` : message);
+}
+
+/**
+ * Tracks consecutive failures of one host. Once the threshold is reached the circuit opens and
+ * requests fail fast; after the cooldown a single trial request decides whether it closes again.
+ */
+class CircuitBreaker {
+    private readonly threshold: number;
+    private readonly cooldown: number;
+    private failures = 0;
+    private openUntil = 0;
+    private trialInFlight = false;
+
+    constructor(threshold: number, cooldown: number) {
+        this.threshold = threshold;
+        this.cooldown = cooldown;
+    }
+
+    tryAcquire(): boolean {
+        if (this.threshold === 0 || this.failures < this.threshold) {
+            return true;
+        }
+        if (Date.now() < this.openUntil || this.trialInFlight) {
+            return false;
+        }
+        this.trialInFlight = true;
+        return true;
+    }
+
+    /**
+     * @returns true when this failure opened the circuit
+     */
+    recordFailure(): boolean {
+        this.trialInFlight = false;
+        this.failures++;
+        if (this.threshold > 0 && this.failures >= this.threshold) {
+            this.openUntil = Date.now() + this.cooldown;
+            return true;
+        }
+        return false;
+    }
+
+    recordSuccess(): void {
+        this.trialInFlight = false;
+        this.failures = 0;
+    }
+
+    /**
+     * Release a trial slot without a verdict, e.g. when the request was aborted by the caller
+     */
+    release(): void {
+        this.trialInFlight = false;
+    }
+}
+
 /**
  * HTTP client implementation using fetch
  */
 export class FetchHttpClient implements HttpClient {
     private readonly fetch: typeof fetch;
+    private headers: Record<string, string> = {};
+    private dispatcher?: Agent;
+    private retries = 0;
+    private retryBackoff = 0;
+    private circuitBreakerThreshold = 0;
+    private circuitBreakerCooldown = 0;
+    private readonly circuits = new Map<string, CircuitBreaker>();
 
-    constructor(fetchFn: typeof fetch = fetch) {
+    constructor(fetchFn: typeof fetch = fetch, options: HttpClientOptions = {}) {
         this.fetch = fetchFn;
+        this.configure(options);
+    }
+
+    /**
+     * Replace the connection settings. Requests in flight finish with the previous TLS settings.
+     */
+    configure(options: HttpClientOptions): void {
+        void this.dispatcher?.close();
+        this.headers = options.headers || {};
+        this.dispatcher = options.tls ? new Agent({ connect: options.tls }) : undefined;
+        this.retries = options.retries ?? 0;
+        this.retryBackoff = options.retryBackoff ?? 0;
+        this.circuitBreakerThreshold = options.circuitBreakerThreshold ?? 0;
+        this.circuitBreakerCooldown = options.circuitBreakerCooldown ?? 0;
+        this.circuits.clear();
     }
 
-    async request<T>(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T> | null> {
+    async request<T>(url: string, options: HttpRequestOptions = {}): Promise<HttpResponse<T>> {
+        const origin = new URL(url).origin;
+        const circuit = this.circuitFor(origin);
+        if (!circuit.tryAcquire()) {
+            throw new HttpRequestError('circuit_open', `Circuit breaker open for ${origin}`);
+        }
+
+        // Only idempotent requests are retried, a POST to /api/generate must never run twice
+        const method = options.method || 'GET';
+        const attempts = method === 'GET' ? this.retries + 1 : 1;
+
+        for (let attempt = 1; ; attempt++) {
+            let response: HttpResponse<T> | undefined;
+            let failure: HttpRequestError | undefined;
+            try {
+                response = await this.attempt<T>(url, method, options);
+            } catch (error) {
+                failure = error instanceof HttpRequestError ? error : classifyError(error, false, false);
+            }
+
+            const retryable = failure
+                ? RETRYABLE_REASONS.has(failure.reason)
+                : RETRYABLE_STATUSES.has(response!.status);
+            if (retryable && attempt < attempts && !options.signal?.aborted) {
+                try {
+                    await this.backoff(attempt, options.signal);
+                    continue;
+                } catch {
+                    failure = new HttpRequestError('aborted', 'Request was aborted');
+                }
+            }
+
+            if (failure?.reason === 'aborted') {
+                circuit.release();
+            } else if (failure || response!.status >= 500) {
+                if (circuit.recordFailure() && this.circuitBreakerThreshold > 0) {
+                    logger.warning(
+                        `Circuit breaker opened for ${origin} after ${this.circuitBreakerThreshold} failures, retrying in ${this.circuitBreakerCooldown / 1000}s`,
+                    );
+                }
+            } else {
+                circuit.recordSuccess();
+            }
+
+            if (failure) {
+                throw failure;
+            }
+            return response!;
+        }
+    }
+
+    private circuitFor(origin: string): CircuitBreaker {
+        if (this.circuitBreakerThreshold === 0) {
+            // A disabled circuit never opens, so there is no state worth keeping
+            return new CircuitBreaker(0, 0);
+        }
+
+        const circuit =
+            this.circuits.get(origin) ?? new CircuitBreaker(this.circuitBreakerThreshold, this.circuitBreakerCooldown);
+        // Reinserted so the Map stays ordered from least to most recently used
+        this.circuits.delete(origin);
+        this.circuits.set(origin, circuit);
+        if (this.circuits.size > MAX_CIRCUITS) {
+            this.circuits.delete(this.circuits.keys().next().value!);
+        }
+        return circuit;
+    }
+
+    /**
+     * Number of hosts with circuit breaker state
+     */
+    getCircuitCount(): number {
+        return this.circuits.size;
+    }
+
+    /**
+     * Full-jitter exponential backoff, rejects when the caller aborts while waiting
+     */
+    private async backoff(attempt: number, signal?: AbortSignal): Promise<void> {
+        const ceiling = Math.min(this.retryBackoff * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+        await delay(Math.random() * ceiling, undefined, { signal });
+    }
+
+    private async attempt<T>(url: string, method: string, options: HttpRequestOptions): Promise<HttpResponse<T>> {
         const controller = new AbortController();
-        const timeout = options.timeout ? setTimeout(() => controller.abort(), options.timeout) : undefined;
+        let timedOut = false;
+        const timeout = options.timeout
+            ? setTimeout(() => {
+                  timedOut = true;
+                  controller.abort();
+              }, options.timeout)
+            : undefined;
 
         try {
             const fetchOptions: RequestInit = {
-                method: options.method || 'GET',
-                signal: options.signal || controller.signal,
-                headers: options.headers || {},
+                method,
+                // Honour both the caller's signal and the timeout
+                signal: options.signal
+                    ? timeout
+                        ? AbortSignal.any([options.signal, controller.signal])
+                        : options.signal
+                    : controller.signal,
+                headers: { ...this.headers, ...options.headers },
             };
 
+            if (this.dispatcher) {
+                fetchOptions.dispatcher = this.dispatcher;
+            }
+
             if (options.body) {
                 fetchOptions.body = options.body;
             }
 
             const response = await this.fetch(url, fetchOptions);
 
-            return {
+            const result: HttpResponse<T> = {
                 ok: response.ok,
                 status: response.status,
                 statusText: response.statusText,
-                json: () => response.json() as Promise<T>,
+                json: async (): Promise<T> => {
+                    let text: string;
+                    try {
+                        text = await response.text();
+                    } catch (error) {
+                        throw classifyError(error, false, false);
+                    }
+                    result.bodySize = Buffer.byteLength(text);
+                    try {
+                        return JSON.parse(text) as T;
+                    } catch (error) {
+                        throw new HttpRequestError(
+                            'invalid_json',
+                            `Invalid JSON response: ${error instanceof Error ? error.message : error}`,
+                        );
+                    }
+                },
             };
-        } catch {
-            // Let the calling code handle the error
-            return null;
+            return result;
+        } catch (error) {
+            throw classifyError(error, timedOut, options.signal?.aborted ?? false);
         } finally {
             if (timeout) {
                 clearTimeout(timeout);
@@ -69,3 +362,77 @@ export class FetchHttpClient implements HttpClient {
         }
     }
 }
+
+function readConfigFile(path: string, description: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new ConfigError(
+            `Could not read ${description} ${path}: ${error instanceof Error ? error.message : error}`,
+        );
+    }
+}
+
+/**
+ * Authorization header for bearer token or basic auth credentials, undefined without credentials
+ */
+export function authorizationHeader(credentials: {
+    bearerToken?: string;
+    username?: string;
+    password?: string;
+}): string | undefined {
+    if (credentials.bearerToken) {
+        return `Bearer ${credentials.bearerToken}`;
+    }
+    if (credentials.username) {
+        return `Basic ${Buffer.from(`${credentials.username}:${credentials.password || ''}`).toString('base64')}`;
+    }
+    return undefined;
+}
+
+/**
+ * Client options for hosts named by callers, such as /probe targets: the configured headers, credentials
+ * and client certificate are left out so they are only ever sent to the configured Ollama servers
+ */
+export function withoutCredentials(options: HttpClientOptions): HttpClientOptions {
+    const tls: HttpClientOptions['tls'] = {};
+    if (options.tls?.ca) {
+        tls.ca = options.tls.ca;
+    }
+    if (options.tls?.rejectUnauthorized !== undefined) {
+        tls.rejectUnauthorized = options.tls.rejectUnauthorized;
+    }
+    return { ...options, headers: {}, tls: Object.keys(tls).length > 0 ? tls : undefined };
+}
+
+/**
+ * Turn the Ollama connection config into client options, reading the referenced certificate files
+ */
+export function loadHttpClientOptions(config: ExporterConfig['ollama']): HttpClientOptions {
+    const headers = { ...config.headers };
+    const authorization = authorizationHeader(config);
+    if (authorization) {
+        headers.Authorization = authorization;
+    }
+
+    const tls: HttpClientOptions['tls'] = {};
+    if (config.caFile) {
+        tls.ca = readConfigFile(config.caFile, 'CA bundle');
+    }
+    if (config.certFile && config.keyFile) {
+        tls.cert = readConfigFile(config.certFile, 'client certificate');
+        tls.key = readConfigFile(config.keyFile, 'client key');
+    }
+    if (config.insecureSkipVerify) {
+        tls.rejectUnauthorized = false;
+    }
+
+    return {
+        headers,
+        tls: Object.keys(tls).length > 0 ? tls : undefined,
+        retries: config.retries,
+        retryBackoff: config.retryBackoff * 1000,
+        circuitBreakerThreshold: config.circuitBreakerThreshold,
+        circuitBreakerCooldown: config.circuitBreakerCooldown * 1000,
+    };
+}
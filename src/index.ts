@@ -1,73 +1,331 @@
 #!/usr/bin/env node
-import { createServer } from 'node:http';
+import { createServer, type ServerResponse } from 'node:http';
+import { setTimeout as delay } from 'node:timers/promises';
 import { URL } from 'node:url';
 import { program } from '@commander-js/extra-typings';
+import { Registry } from 'prom-client';
+import { COLLECTOR_NAMES, enabledCollectors, type CollectorName } from './collector.ts';
+import { ConfigError, loadConfig, loadWebConfig, type ExporterConfig, type WebConfig } from './config.ts';
 import { OllamaExporter } from './exporter.ts';
-import { FetchHttpClient } from './http-client.ts';
-import { logger, setLogLevel } from './logger.ts';
-import { REGISTRY, generateMetrics } from './metrics.ts';
+import { MetricsExposition } from './exposition.ts';
+import { GenerationProbe } from './generation-probe.ts';
+import { parseOllamaHost } from './host.ts';
+import { FetchHttpClient, loadHttpClientOptions, withoutCredentials, type HttpClientOptions } from './http-client.ts';
+import { configureLogging, logger } from './logger.ts';
+import { createRegistry, createReloadMetrics } from './metrics.ts';
+import { ModelEventStream } from './model-events.ts';
+import { ModelFilter } from './model-filter.ts';
+import { OtlpPusher } from './otlp.ts';
+import { OllamaProxy } from './proxy.ts';
+import { MetricsPusher } from './push.ts';
+import { StatsdSink } from './statsd.ts';
+import { StateFile } from './state.ts';
+import { WebServer } from './web-server.ts';
 
 export const VERSION = '1.0.0';
 
 interface ProgramOptions {
-    port: string;
-    interval: string;
-    ollamaHost: string;
-    apiTimeout: string;
-    logLevel: string;
+    config?: string;
+    port?: string;
+    interval?: string;
+    ollamaHost?: string;
+    ollamaBearerToken?: string;
+    ollamaUsername?: string;
+    ollamaPassword?: string;
+    ollamaHeader?: string[];
+    ollamaCaFile?: string;
+    ollamaCertFile?: string;
+    ollamaKeyFile?: string;
+    ollamaInsecureSkipVerify?: true;
+    ollamaRetries?: string;
+    ollamaRetryBackoff?: string;
+    ollamaCircuitBreakerThreshold?: string;
+    ollamaCircuitBreakerCooldown?: string;
+    apiTimeout?: string;
+    logLevel?: string;
+    logFormat?: string;
+    logSampleInterval?: string;
+    scrapeOnRequest?: true;
+    minScrapeAge?: string;
+    proxyTarget?: string;
+    enableReloadEndpoint?: true;
+    webConfigFile?: string;
+    healthPort?: string;
+    shutdownGracePeriod?: string;
+    stateFile?: string;
+    stateSaveInterval?: string;
+    probeModels?: string;
+    probeInterval?: string;
+    probeTimeout?: string;
+    probeMaxTokens?: string;
+    probeLoadedOnly?: true;
+    otlpEndpoint?: string;
+    otlpProtocol?: string;
+    otlpInterval?: string;
+    otlpTimeout?: string;
+    otlpHeader?: string[];
+    otlpBufferSize?: string;
+    pushMode?: string;
+    pushUrl?: string;
+    pushJob?: string;
+    pushBearerToken?: string;
+    pushUsername?: string;
+    pushPassword?: string;
+    pushTimeout?: string;
+    statsdAddress?: string;
+    statsdPrefix?: string;
+    statsdFlushInterval?: string;
+    staticLabel?: string[];
+    modelInclude?: string[];
+    modelExclude?: string[];
+    modelSplit?: string[];
+    maxModels?: string;
     validateConfig: boolean;
 }
 
-function getConfig(): {
-    port: number;
-    interval: number;
-    apiTimeout: number;
-    logLevel: 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
-    ollamaHost: string;
-    validateConfig: boolean;
-} {
-    // Environment variable defaults
-    const envDefaults = {
-        port: process.env.PORT || '8000',
-        interval: process.env.INTERVAL || '30',
-        ollamaHost: process.env.OLLAMA_HOST || 'localhost:11434',
-        apiTimeout: process.env.API_TIMEOUT || '30',
-        logLevel: process.env.LOG_LEVEL || 'INFO',
-    };
+// Collector toggles are generated from the available collectors, e.g. --collector.ps and --no-collector.ps
+type CollectorOptions = Partial<Record<`collector.${CollectorName}`, boolean>>;
 
+function parseCliOptions(): ProgramOptions & CollectorOptions {
+    // Options have no defaults here: unset flags fall through to env vars, the config file and then the schema defaults
     program
         .name('ollama-exporter')
         .description('Prometheus exporter for Ollama metrics')
         .version(VERSION)
-        .option('-p, --port <port>', 'Port to serve metrics on', envDefaults.port)
-        .option('-i, --interval <interval>', 'Scrape interval in seconds', envDefaults.interval)
-        .option('--ollama-host <host>', 'Ollama server host:port', envDefaults.ollamaHost)
-        .option('-t, --api-timeout <timeout>', 'Timeout for Ollama API calls in seconds', envDefaults.apiTimeout)
-        .option('-l, --log-level <level>', 'Log level', envDefaults.logLevel)
-        .option('--validate-config', 'Validate configuration and exit', false)
-        .parse();
-
-    const options = program.opts() as ProgramOptions;
-
-    return {
-        port: parseInt(options.port, 10),
-        interval: parseInt(options.interval, 10),
-        apiTimeout: parseInt(options.apiTimeout, 10),
-        logLevel: options.logLevel as 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR',
-        ollamaHost: options.ollamaHost,
-        validateConfig: options.validateConfig,
-    };
+        .option('-c, --config <file>', 'YAML or JSON configuration file (env: CONFIG_FILE)')
+        .option('-p, --port <port>', 'Port to serve metrics on (default: 8000)')
+        .option('-i, --interval <interval>', 'Scrape interval in seconds (default: 30)')
+        .option(
+            '--ollama-host <host>',
+            'Comma-separated list of Ollama targets as host:port or http(s) URL (default: localhost:11434)',
+        )
+        .option('--ollama-bearer-token <token>', 'Bearer token sent to Ollama')
+        .option('--ollama-username <username>', 'Basic auth username for Ollama')
+        .option('--ollama-password <password>', 'Basic auth password for Ollama')
+        .option(
+            '--ollama-header <header>',
+            'Extra "Name: value" header sent to Ollama, may be repeated',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option('--ollama-ca-file <file>', 'CA bundle used to verify the Ollama TLS certificate')
+        .option('--ollama-cert-file <file>', 'Client certificate presented to Ollama')
+        .option('--ollama-key-file <file>', 'Private key of the client certificate')
+        .option('--ollama-insecure-skip-verify', 'Do not verify the Ollama TLS certificate')
+        .option('--ollama-retries <count>', 'Retries of failed GET requests to Ollama (default: 2)')
+        .option(
+            '--ollama-retry-backoff <seconds>',
+            'Base delay of the jittered exponential retry backoff (default: 0.2)',
+        )
+        .option(
+            '--ollama-circuit-breaker-threshold <count>',
+            'Consecutive failures after which requests to a host fail fast, 0 disables (default: 5)',
+        )
+        .option(
+            '--ollama-circuit-breaker-cooldown <seconds>',
+            'Time before a failing host is tried again (default: 30)',
+        )
+        .option('-t, --api-timeout <timeout>', 'Timeout for Ollama API calls in seconds (default: 30)')
+        .option('-l, --log-level <level>', 'Log level: DEBUG, INFO, WARNING or ERROR (default: INFO)')
+        .option('--log-format <format>', 'Log format: text or json, one object per line (default: text)')
+        .option(
+            '--log-sample-interval <seconds>',
+            'Log identical warnings and errors at most once per interval, 0 logs all (default: 0)',
+        )
+        .option('--scrape-on-request', 'Scrape Ollama when /metrics is requested instead of on a fixed interval')
+        .option('--min-scrape-age <seconds>', 'Serve cached metrics younger than this when scraping on request')
+        .option(
+            '--proxy-target <host>',
+            'Proxy /api and /v1 requests to this Ollama host:port and record inference metrics',
+        )
+        .option('--web-config-file <file>', 'Web config enabling TLS and basic auth on the exporter endpoints')
+        .option(
+            '--health-port <port>',
+            'Also serve /health over plain HTTP on this port of 127.0.0.1, for container health checks (default: 0, disabled)',
+        )
+        .option('--enable-reload-endpoint', 'Allow reloading the configuration with POST /-/reload')
+        .option(
+            '--shutdown-grace-period <seconds>',
+            'Time in-flight requests get to finish on shutdown before they are cut off (default: 10)',
+        )
+        .option('--state-file <file>', 'Save counters and model state to this file and restore them on startup')
+        .option('--state-save-interval <seconds>', 'How often the state file is saved (default: 60)')
+        .option('--probe-models <models>', 'Comma-separated list of models to send a synthetic generation probe to')
+        .option('--probe-interval <interval>', 'Generation probe interval in seconds (default: 300)')
+        .option('--probe-timeout <timeout>', 'Timeout for a single generation probe in seconds (default: 30)')
+        .option('--probe-max-tokens <tokens>', 'Maximum number of tokens a generation probe may generate (default: 8)')
+        .option(
+            '--probe-loaded-only',
+            'Only probe models that are already loaded, so probes never trigger a model load',
+        )
+        .option('--otlp-endpoint <url>', 'Push metrics to this OpenTelemetry collector over OTLP/HTTP')
+        .option('--otlp-protocol <protocol>', 'OTLP encoding, http/protobuf or http/json (default: http/protobuf)')
+        .option('--otlp-interval <seconds>', 'How often metrics are pushed to the collector (default: 60)')
+        .option('--otlp-timeout <seconds>', 'Timeout for a single OTLP push in seconds (default: 10)')
+        .option(
+            '--otlp-header <header>',
+            'Extra "Name: value" header sent to the collector, may be repeated',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option(
+            '--otlp-buffer-size <batches>',
+            'Failed pushes kept for retry while the collector is unreachable (default: 10)',
+        )
+        .option(
+            '--push-mode <mode>',
+            'Push metrics after each scrape: none, pushgateway or remote-write (default: none)',
+        )
+        .option('--push-url <url>', 'Pushgateway base URL or remote-write endpoint metrics are pushed to')
+        .option('--push-job <job>', 'Job name used for pushed metrics (default: ollama-exporter)')
+        .option('--push-bearer-token <token>', 'Bearer token sent with pushes')
+        .option('--push-username <username>', 'Basic auth username for pushes')
+        .option('--push-password <password>', 'Basic auth password for pushes')
+        .option('--push-timeout <seconds>', 'Timeout for a single push in seconds (default: 10)')
+        .option('--statsd-address <host:port>', 'Send metrics to this DogStatsD agent over UDP')
+        .option('--statsd-prefix <prefix>', 'Prefix replacing "ollama_" in StatsD metric names (default: ollama)')
+        .option('--statsd-flush-interval <seconds>', 'How often metrics are sent to the StatsD agent (default: 10)')
+        .option(
+            '--static-label <name=value>',
+            'Extra label added to every series, may be repeated',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option(
+            '--model-include <regex>',
+            'Only export models whose name matches, may be repeated',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option(
+            '--model-exclude <regex>',
+            'Do not export models whose name matches, may be repeated',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option(
+            '--model-split <regex>',
+            'Replace model_name by the named groups of this pattern, e.g. ^(?<model>[^:]+):(?<tag>.+)$',
+            (value, previous: string[] = []) => [...previous, value],
+        )
+        .option('--max-models <count>', 'Maximum number of models exported per Ollama host (default: 0, no limit)')
+        .option('--validate-config', 'Validate configuration and exit', false);
+
+    for (const name of COLLECTOR_NAMES) {
+        program
+            .option(`--collector.${name}`, `Enable the ${name} collector (default: enabled)`)
+            .option(`--no-collector.${name}`, `Disable the ${name} collector`);
+    }
+    program.parse();
+
+    return program.opts() as ProgramOptions & CollectorOptions;
+}
+
+function getConfig(options: ProgramOptions & CollectorOptions): ExporterConfig {
+    return loadConfig(
+        {
+            port: options.port,
+            interval: options.interval,
+            apiTimeout: options.apiTimeout,
+            logLevel: options.logLevel,
+            logFormat: options.logFormat,
+            logSampleInterval: options.logSampleInterval,
+            targets: options.ollamaHost,
+            ollama: {
+                bearerToken: options.ollamaBearerToken,
+                username: options.ollamaUsername,
+                password: options.ollamaPassword,
+                headers: options.ollamaHeader,
+                caFile: options.ollamaCaFile,
+                certFile: options.ollamaCertFile,
+                keyFile: options.ollamaKeyFile,
+                insecureSkipVerify: options.ollamaInsecureSkipVerify,
+                retries: options.ollamaRetries,
+                retryBackoff: options.ollamaRetryBackoff,
+                circuitBreakerThreshold: options.ollamaCircuitBreakerThreshold,
+                circuitBreakerCooldown: options.ollamaCircuitBreakerCooldown,
+            },
+            scrapeOnRequest: options.scrapeOnRequest,
+            minScrapeAge: options.minScrapeAge,
+            proxyTarget: options.proxyTarget,
+            enableReloadEndpoint: options.enableReloadEndpoint,
+            webConfigFile: options.webConfigFile,
+            healthPort: options.healthPort,
+            shutdownGracePeriod: options.shutdownGracePeriod,
+            stateFile: options.stateFile,
+            stateSaveInterval: options.stateSaveInterval,
+            collectors: Object.fromEntries(COLLECTOR_NAMES.map((name) => [name, options[`collector.${name}`]])),
+            probe: {
+                models: options.probeModels,
+                interval: options.probeInterval,
+                timeout: options.probeTimeout,
+                maxTokens: options.probeMaxTokens,
+                loadedOnly: options.probeLoadedOnly,
+            },
+            otlp: {
+                endpoint: options.otlpEndpoint,
+                protocol: options.otlpProtocol,
+                interval: options.otlpInterval,
+                timeout: options.otlpTimeout,
+                headers: options.otlpHeader,
+                bufferSize: options.otlpBufferSize,
+            },
+            push: {
+                mode: options.pushMode,
+                url: options.pushUrl,
+                job: options.pushJob,
+                bearerToken: options.pushBearerToken,
+                username: options.pushUsername,
+                password: options.pushPassword,
+                timeout: options.pushTimeout,
+            },
+            statsd: {
+                address: options.statsdAddress,
+                prefix: options.statsdPrefix,
+                flushInterval: options.statsdFlushInterval,
+            },
+            staticLabels: options.staticLabel,
+            models: {
+                include: options.modelInclude,
+                exclude: options.modelExclude,
+                split: options.modelSplit,
+                maxModels: options.maxModels,
+            },
+        },
+        options.config || process.env.CONFIG_FILE || undefined,
+    );
 }
 
 async function main(): Promise<void> {
-    const config = getConfig();
+    const options = parseCliOptions();
+
+    let config: ExporterConfig;
+    let clientOptions: HttpClientOptions;
+    let webConfig: WebConfig | undefined;
+    try {
+        config = getConfig(options);
+        clientOptions = loadHttpClientOptions(config.ollama);
+        webConfig = config.webConfigFile ? loadWebConfig(config.webConfigFile) : undefined;
+    } catch (error) {
+        if (error instanceof ConfigError) {
+            logger.error(options.validateConfig ? `❌ ${error.message}` : error.message);
+            process.exit(1);
+        }
+        throw error;
+    }
 
-    setLogLevel(config.logLevel);
+    configureLogging({
+        level: config.logLevel,
+        format: config.logFormat,
+        sampleInterval: config.logSampleInterval,
+    });
 
-    if (config.validateConfig) {
-        logger.info('Validating configuration...');
-        const httpClient = new FetchHttpClient();
-        const exporter = new OllamaExporter(config.ollamaHost, config.apiTimeout, httpClient);
+    if (options.validateConfig) {
+        logger.info('✅ Configuration valid');
+        logger.info('Checking Ollama API connection...');
+        const httpClient = new FetchHttpClient(fetch, clientOptions);
+        const exporter = new OllamaExporter(
+            config.targets,
+            config.apiTimeout,
+            httpClient,
+            new Registry(),
+            enabledCollectors(config.collectors),
+        );
 
         if (await exporter.checkOllamaHealth()) {
             logger.info('✅ Ollama API connection successful');
@@ -75,62 +333,348 @@ async function main(): Promise<void> {
             logger.error('❌ Cannot connect to Ollama API');
             process.exit(1);
         }
-
-        logger.info('✅ Configuration valid');
         return;
     }
 
     logger.info(`Starting Ollama Prometheus Exporter v${VERSION}`);
-    logger.info(`Metrics server: http://localhost:${config.port}/metrics`);
-    logger.info(`Health check: http://localhost:${config.port}/health`);
-    logger.info(`Ollama API: ${config.ollamaHost}`);
-    logger.info(`Scrape interval: ${config.interval}s`);
+    const origin = `${webConfig?.tls_server_config ? 'https' : 'http'}://localhost:${config.port}`;
+    logger.info(`Metrics server: ${origin}/metrics`);
+    logger.info(`Health check: ${origin}/health`);
+    logger.info(`Probe endpoint: ${origin}/probe?target=<host:port>`);
+    logger.info(`Model events: ${origin}/events`);
+    logger.info(`Ollama API: ${config.targets.join(', ')}`);
+    if (config.scrapeOnRequest) {
+        logger.info(`Scraping on request (minimum cache age: ${config.minScrapeAge}s)`);
+    } else {
+        logger.info(`Scrape interval: ${config.interval}s`);
+    }
     logger.info(`API timeout: ${config.apiTimeout}s`);
+    logger.info(`Collectors: ${enabledCollectors(config.collectors).join(', ') || 'none'}`);
 
-    const httpClient = new FetchHttpClient();
-    const exporter = new OllamaExporter(config.ollamaHost, config.apiTimeout, httpClient);
+    const httpClient = new FetchHttpClient(fetch, clientOptions);
+    const probeClient = new FetchHttpClient(fetch, withoutCredentials(clientOptions));
+    // Slow or failing generation probes must not open the circuit breakers that scraping relies on
+    const generationProbeClient = new FetchHttpClient(fetch, clientOptions);
+    const registry = createRegistry();
+    registry.setDefaultLabels(config.staticLabels);
+    const modelFilter = new ModelFilter(registry, config.models);
+    const exporter = new OllamaExporter(
+        config.targets,
+        config.apiTimeout,
+        httpClient,
+        registry,
+        enabledCollectors(config.collectors),
+        modelFilter,
+    );
+    const exposition = new MetricsExposition(registry, modelFilter);
+    const modelEvents = new ModelEventStream(exporter);
 
-    // Set up signal handlers
-    const shutdown = (): void => {
-        logger.info('Shutdown requested');
-        exporter.shutdown();
-        process.exit(0);
+    // Restored once on startup, so a path changed on reload applies from the next restart
+    const stateFile = config.stateFile ? new StateFile(config.stateFile, exporter) : undefined;
+    stateFile?.restore();
+
+    let proxy = config.proxyTarget ? new OllamaProxy(config.proxyTarget, registry, clientOptions) : undefined;
+    if (proxy) {
+        logger.info(`Proxying Ollama API requests to ${proxy.getTarget()}`);
+    }
+    let generationProbe =
+        config.probe.models.length > 0
+            ? new GenerationProbe(config.targets, generationProbeClient, registry, config.probe)
+            : undefined;
+    let otlpPusher = config.otlp.endpoint ? new OtlpPusher(registry, config.otlp, modelFilter) : undefined;
+    let metricsPusher = config.push.mode !== 'none' ? new MetricsPusher(registry, config.push, modelFilter) : undefined;
+    exporter.on('updated', () => void metricsPusher?.push());
+    let statsdSink = config.statsd.address ? new StatsdSink(registry, config.statsd, modelFilter) : undefined;
+
+    const reloadMetrics = createReloadMetrics(registry);
+    reloadMetrics.OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESSFUL.set(1);
+    reloadMetrics.OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESS_TIMESTAMP.setToCurrentTime();
+
+    // Components are reconfigured in place rather than recreated, since their metrics stay registered
+    const applyConfig = async (next: ExporterConfig): Promise<void> => {
+        // Read certificate files before changing anything, so a missing file leaves the old config in place
+        const nextClientOptions = loadHttpClientOptions(next.ollama);
+        const nextWebConfig = next.webConfigFile ? loadWebConfig(next.webConfigFile) : undefined;
+        webServer.configure(nextWebConfig);
+        if (next.port !== config.port) {
+            logger.warning(`Changing the port requires a restart, still listening on ${config.port}`);
+        }
+        if (next.healthPort !== config.healthPort) {
+            logger.warning('Changing the health port requires a restart');
+        }
+        configureLogging({ level: next.logLevel, format: next.logFormat, sampleInterval: next.logSampleInterval });
+        registry.setDefaultLabels(next.staticLabels);
+        modelFilter.configure(next.models);
+
+        httpClient.configure(nextClientOptions);
+        probeClient.configure(withoutCredentials(nextClientOptions));
+        generationProbeClient.configure(nextClientOptions);
+        await exporter.reconfigure(next.targets, next.apiTimeout, enabledCollectors(next.collectors));
+        if (next.scrapeOnRequest) {
+            exporter.stopMetricsLoop();
+        } else {
+            exporter.startMetricsLoop(next.interval);
+        }
+
+        if (next.proxyTarget) {
+            if (proxy) {
+                proxy.setTarget(next.proxyTarget, nextClientOptions);
+            } else {
+                proxy = new OllamaProxy(next.proxyTarget, registry, nextClientOptions);
+            }
+        }
+
+        if (generationProbe) {
+            generationProbe.reconfigure(next.targets, next.probe);
+        } else if (next.probe.models.length > 0) {
+            generationProbe = new GenerationProbe(next.targets, generationProbeClient, registry, next.probe);
+        }
+        if (next.probe.models.length > 0) {
+            generationProbe?.start(next.probe.interval);
+        } else {
+            generationProbe?.stop();
+        }
+        stateFile?.start(next.stateSaveInterval);
+
+        if (otlpPusher && next.otlp.endpoint) {
+            otlpPusher.reconfigure(next.otlp);
+        } else if (next.otlp.endpoint) {
+            otlpPusher = new OtlpPusher(registry, next.otlp, modelFilter);
+        }
+        if (next.otlp.endpoint) {
+            otlpPusher?.start(next.otlp.interval);
+        } else {
+            otlpPusher?.stop();
+        }
+
+        if (metricsPusher) {
+            metricsPusher.reconfigure(next.push);
+        } else if (next.push.mode !== 'none') {
+            metricsPusher = new MetricsPusher(registry, next.push, modelFilter);
+        }
+
+        if (statsdSink && next.statsd.address) {
+            statsdSink.reconfigure(next.statsd);
+        } else if (next.statsd.address) {
+            statsdSink = new StatsdSink(registry, next.statsd, modelFilter);
+        }
+        if (next.statsd.address) {
+            statsdSink?.start(next.statsd.flushInterval);
+        } else {
+            statsdSink?.stop();
+        }
+
+        config = { ...next, port: config.port, healthPort: config.healthPort };
+    };
+
+    let reloading = Promise.resolve(true);
+    const reload = (): Promise<boolean> => {
+        // Serialize reloads so a burst of signals cannot interleave reconfiguration
+        reloading = reloading.then(async () => {
+            if (exporter.isShuttingDown()) {
+                return false;
+            }
+            logger.info('Reloading configuration');
+            try {
+                await applyConfig(getConfig(options));
+            } catch (error) {
+                logger.error(
+                    `Configuration reload failed, keeping the current configuration: ${error instanceof Error ? error.message : error}`,
+                );
+                reloadMetrics.OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESSFUL.set(0);
+                return false;
+            }
+            reloadMetrics.OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESSFUL.set(1);
+            reloadMetrics.OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESS_TIMESTAMP.setToCurrentTime();
+            logger.info(`Configuration reloaded, Ollama API: ${config.targets.join(', ')}`);
+            return true;
+        });
+        return reloading;
     };
 
-    process.on('SIGINT', shutdown);
-    process.on('SIGTERM', shutdown);
+    // Responses still being written, tracked so shutdown can let them finish
+    const inFlight = new Set<ServerResponse>();
+    let onIdle: (() => void) | undefined;
+
+    const handleHealth = (res: ServerResponse): void => {
+        res.writeHead(exporter.isShuttingDown() ? 503 : 200, { 'Content-Type': 'application/json' });
+        const health = {
+            status: exporter.isShuttingDown() ? 'shutting_down' : 'healthy',
+            timestamp: new Date().toISOString(),
+            ollama_hosts: exporter.getTargets(),
+        };
+        res.end(JSON.stringify(health));
+    };
 
     // Create HTTP server
-    const server = createServer(async (req, res) => {
+    const webServer = new WebServer(async (req, res) => {
         const url = new URL(req.url || '/', `http://localhost:${config.port}`);
 
+        if (exporter.isShuttingDown() && url.pathname !== '/health') {
+            res.writeHead(503, { 'Content-Type': 'text/plain', Connection: 'close' });
+            res.end('Shutting down');
+            return;
+        }
+
+        inFlight.add(res);
+        res.on('close', () => {
+            inFlight.delete(res);
+            if (inFlight.size === 0) {
+                onIdle?.();
+            }
+        });
+
         if (url.pathname === '/health') {
-            res.writeHead(200, { 'Content-Type': 'application/json' });
-            const health = {
-                status: exporter.isShuttingDown() ? 'shutting_down' : 'healthy',
-                timestamp: new Date().toISOString(),
-                ollama_host: config.ollamaHost,
-            };
-            res.end(JSON.stringify(health));
+            handleHealth(res);
         } else if (url.pathname === '/metrics') {
-            res.writeHead(200, { 'Content-Type': REGISTRY.contentType });
-            res.end(await generateMetrics());
+            if (config.scrapeOnRequest) {
+                await exporter.refreshMetrics(config.minScrapeAge);
+            }
+            await exposition.handle(req, res);
+        } else if (url.pathname === '/events') {
+            modelEvents.handle(req, res);
+        } else if (url.pathname === '/probe') {
+            const target = url.searchParams.get('target');
+            if (!target) {
+                res.writeHead(400, { 'Content-Type': 'text/plain' });
+                res.end('Target parameter is missing');
+                return;
+            }
+            try {
+                parseOllamaHost(target);
+            } catch (error) {
+                res.writeHead(400, { 'Content-Type': 'text/plain' });
+                res.end((error as Error).message);
+                return;
+            }
+
+            // Scrape the target on demand into a registry that only lives for this request
+            const probeRegistry = createRegistry();
+            probeRegistry.setDefaultLabels(config.staticLabels);
+            const probeFilter = new ModelFilter(probeRegistry, config.models);
+            const probeExporter = new OllamaExporter(
+                [target],
+                config.apiTimeout,
+                probeClient,
+                probeRegistry,
+                enabledCollectors(config.collectors),
+                probeFilter,
+            );
+            await probeExporter.updateMetrics();
+
+            await new MetricsExposition(probeRegistry, probeFilter).handle(req, res);
+        } else if (url.pathname === '/-/reload' && config.enableReloadEndpoint) {
+            if (req.method !== 'POST' && req.method !== 'PUT') {
+                res.writeHead(405, { Allow: 'POST, PUT', 'Content-Type': 'text/plain' });
+                res.end('Method Not Allowed');
+                return;
+            }
+            const success = await reload();
+            res.writeHead(success ? 200 : 500, { 'Content-Type': 'text/plain' });
+            res.end(success ? 'Configuration reloaded' : 'Configuration reload failed, see the exporter logs');
+        } else if (config.proxyTarget && proxy?.handles(url.pathname)) {
+            await proxy.handle(req, res);
         } else {
             res.writeHead(404);
             res.end();
         }
+    }, webConfig);
+
+    webServer.listen(config.port, () => {
+        logger.info(`${webServer.isTls() ? 'HTTPS' : 'HTTP'} server started on port ${config.port}`);
     });
 
-    server.listen(config.port, () => {
-        logger.info(`HTTP server started on port ${config.port}`);
+    // Unaffected by TLS, client certificates and basic auth, so a local health check needs no credentials
+    const healthServer =
+        config.healthPort > 0
+            ? createServer((req, res) => {
+                  if (new URL(req.url || '/', 'http://localhost').pathname === '/health') {
+                      handleHealth(res);
+                  } else {
+                      res.writeHead(404);
+                      res.end();
+                  }
+              })
+            : undefined;
+    healthServer?.listen(config.healthPort, '127.0.0.1', () => {
+        logger.info(`Health server started on 127.0.0.1:${config.healthPort}`);
     });
 
+    const shutdown = async (signal: string): Promise<void> => {
+        if (exporter.isShuttingDown()) {
+            return;
+        }
+        logger.info(`${signal} received, draining for up to ${config.shutdownGracePeriod}s`);
+
+        generationProbe?.shutdown();
+        stateFile?.stop();
+        otlpPusher?.stop();
+        statsdSink?.stop();
+        modelEvents.close();
+        const drained = Promise.all([
+            exporter.shutdown(),
+            inFlight.size > 0 ? new Promise<void>((resolve) => (onIdle = resolve)) : undefined,
+        ]);
+        const finished = await Promise.race([
+            drained.then(() => true),
+            delay(config.shutdownGracePeriod * 1000, false, { ref: false }),
+        ]);
+        if (!finished) {
+            logger.warning(`Grace period expired, closing ${inFlight.size} in-flight requests`);
+        }
+        // Saved after draining, so the state includes the last scrape
+        await stateFile?.save();
+        if (config.otlp.endpoint) {
+            await otlpPusher?.shutdown();
+        }
+        if (config.statsd.address) {
+            await statsdSink?.shutdown();
+        }
+
+        await webServer.close();
+        healthServer?.closeAllConnections();
+        healthServer?.close();
+        logger.info('Shutdown complete');
+        process.exit(0);
+    };
+
+    // Set up signal handlers
+    process.on('SIGINT', () => void shutdown('SIGINT'));
+    process.on('SIGTERM', () => void shutdown('SIGTERM'));
+    process.on('SIGHUP', () => void reload());
+
     // Perform initial scrape
     logger.info('Performing initial metrics scrape...');
     await exporter.updateMetrics();
 
-    // Start metrics loop
-    exporter.startMetricsLoop(config.interval);
+    // Start metrics loop unless scrapes are driven by /metrics requests
+    if (!config.scrapeOnRequest) {
+        exporter.startMetricsLoop(config.interval);
+    }
+
+    if (generationProbe) {
+        logger.info(`Generation probe: ${config.probe.models.join(', ')} every ${config.probe.interval}s`);
+        generationProbe.start(config.probe.interval);
+    }
+
+    if (stateFile) {
+        logger.info(`State file: ${config.stateFile}, saved every ${config.stateSaveInterval}s`);
+        stateFile.start(config.stateSaveInterval);
+    }
+
+    if (config.push.mode !== 'none') {
+        logger.info(`Pushing metrics after each scrape (${config.push.mode}): ${config.push.url}`);
+    }
+
+    if (otlpPusher) {
+        logger.info(`OTLP push: ${otlpPusher.getEndpoint()} every ${config.otlp.interval}s`);
+        otlpPusher.start(config.otlp.interval);
+    }
+
+    if (statsdSink) {
+        logger.info(`StatsD sink: ${statsdSink.getAddress()} every ${config.statsd.flushInterval}s`);
+        statsdSink.start(config.statsd.flushInterval);
+    }
 
     logger.info('Exporter started successfully. Press Ctrl+C to exit.');
 
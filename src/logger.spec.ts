@@ -1,5 +1,5 @@
-import { describe, it, expect } from 'vitest';
-import { logger } from './logger.ts';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { configureLogging, logger } from './logger.ts';
 
 describe('Logger', () => {
     it('should exist', () => {
@@ -12,4 +12,67 @@ describe('Logger', () => {
         expect(typeof logger.warning).toBe('function');
         expect(typeof logger.debug).toBe('function');
     });
+
+    describe('output', () => {
+        let errorSpy: ReturnType<typeof vi.spyOn>;
+        let infoSpy: ReturnType<typeof vi.spyOn>;
+
+        beforeEach(() => {
+            errorSpy = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+            infoSpy = vi.spyOn(console, 'info').mockImplementation(() => undefined);
+        });
+
+        afterEach(() => {
+            configureLogging({ level: 'INFO', format: 'text', sampleInterval: 0 });
+            vi.restoreAllMocks();
+            vi.useRealTimers();
+        });
+
+        it('should write one JSON object per line with fields from child loggers and errors', () => {
+            configureLogging({ level: 'INFO', format: 'json', sampleInterval: 0 });
+            const error = new TypeError('fetch failed');
+
+            logger.child({ target: 'gpu-1:11434' }).error('API request failed', { endpoint: '/api/tags' }, error);
+
+            const entry = JSON.parse(errorSpy.mock.calls[0][0] as string);
+            expect(entry).toMatchObject({
+                level: 'ERROR',
+                logger: 'ollama-exporter',
+                message: 'API request failed',
+                target: 'gpu-1:11434',
+                endpoint: '/api/tags',
+                error: { name: 'TypeError', message: 'fetch failed' },
+            });
+            expect(entry.error.stack).toContain('TypeError: fetch failed');
+            expect(entry.timestamp).toMatch(/^\d{4}-\d{2}-\d{2}T/);
+        });
+
+        it('should append fields to text lines and keep joining other arguments', () => {
+            logger.child({ collector: 'ps' }).info('Updated metrics', 3, { failed_collectors: 'tags,ps' });
+
+            expect(infoSpy.mock.calls[0][0]).toMatch(
+                / - ollama-exporter - INFO - Updated metrics 3 collector=ps failed_collectors=tags,ps$/,
+            );
+        });
+
+        it('should log repeated warnings and errors once per sample interval', () => {
+            vi.useFakeTimers();
+            configureLogging({ level: 'INFO', format: 'json', sampleInterval: 60 });
+            const targetLogger = logger.child({ target: 'gpu-2:11434' });
+
+            for (let i = 0; i < 5; i++) {
+                targetLogger.error('Ollama API is not responding');
+            }
+            logger.child({ target: 'gpu-3:11434' }).error('Ollama API is not responding');
+            vi.advanceTimersByTime(61_000);
+            targetLogger.error('Ollama API is not responding');
+
+            const entries = errorSpy.mock.calls.map((call) => JSON.parse(call[0] as string));
+            expect(entries.map((entry) => [entry.target, entry.suppressed])).toEqual([
+                ['gpu-2:11434', undefined],
+                ['gpu-3:11434', undefined],
+                ['gpu-2:11434', 4],
+            ]);
+        });
+    });
 });
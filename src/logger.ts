@@ -1,4 +1,6 @@
 type LogLevel = 'DEBUG' | 'INFO' | 'WARNING' | 'ERROR';
+type LogFormat = 'text' | 'json';
+type LogFields = Record<string, unknown>;
 
 const LOG_LEVELS: Record<LogLevel, number> = {
     DEBUG: 0,
@@ -7,57 +9,167 @@ const LOG_LEVELS: Record<LogLevel, number> = {
     ERROR: 3,
 };
 
+const CONSOLE_METHODS = {
+    DEBUG: 'debug',
+    INFO: 'info',
+    WARNING: 'warn',
+    ERROR: 'error',
+} as const;
+
+// Forget sampled messages once this many are tracked, so messages with changing content cannot grow the map forever
+const MAX_SAMPLED_MESSAGES = 1000;
+
+// Shared by the root logger and all its children
+const settings = {
+    level: 'INFO' as LogLevel,
+    format: 'text' as LogFormat,
+    // Identical warnings and errors are logged at most once per interval, 0 logs every occurrence
+    sampleInterval: 0,
+};
+
+const sampledMessages = new Map<string, { until: number; suppressed: number }>();
+
+function isPlainObject(value: unknown): value is LogFields {
+    return typeof value === 'object' && value !== null && Object.getPrototypeOf(value) === Object.prototype;
+}
+
+function formatValue(value: unknown): string {
+    const text = typeof value === 'string' ? value : JSON.stringify(value);
+    return /[\s"=]/.test(text) ? JSON.stringify(text) : text;
+}
+
 class Logger {
-    private level: LogLevel = 'INFO';
     private readonly name: string;
+    private readonly bindings: LogFields;
 
-    constructor(name: string) {
+    constructor(name: string, bindings: LogFields = {}) {
         this.name = name;
+        this.bindings = bindings;
     }
 
-    setLevel(level: LogLevel): void {
-        this.level = level;
+    /**
+     * Create a logger that adds the given fields, e.g. the target or collector, to every entry
+     */
+    child(fields: LogFields): Logger {
+        return new Logger(this.name, { ...this.bindings, ...fields });
     }
 
     private shouldLog(level: LogLevel): boolean {
-        return LOG_LEVELS[level] >= LOG_LEVELS[this.level];
+        return LOG_LEVELS[level] >= LOG_LEVELS[settings.level];
     }
 
-    private format(level: LogLevel, message: string, ...args: unknown[]): string {
+    /**
+     * Decide whether a warning or error is logged when sampling is enabled. Returns the number of
+     * occurrences suppressed since it was last logged, or null to suppress this one as well.
+     */
+    private sample(level: LogLevel, message: string): number | null {
+        if (settings.sampleInterval <= 0 || LOG_LEVELS[level] < LOG_LEVELS.WARNING) {
+            return 0;
+        }
+
+        const now = Date.now();
+        const key = `${level}\0${JSON.stringify(this.bindings)}\0${message}`;
+        const entry = sampledMessages.get(key);
+        if (entry && now < entry.until) {
+            entry.suppressed++;
+            return null;
+        }
+
+        if (sampledMessages.size >= MAX_SAMPLED_MESSAGES) {
+            sampledMessages.clear();
+        }
+        sampledMessages.set(key, { until: now + settings.sampleInterval * 1000, suppressed: 0 });
+        return entry?.suppressed ?? 0;
+    }
+
+    /**
+     * Arguments after the message are split by type: plain objects are structured fields, errors are
+     * reported with their name and stack, anything else is appended to the message.
+     */
+    private format(level: LogLevel, message: string, args: unknown[], suppressed: number): string {
+        const fields: LogFields = { ...this.bindings };
+        const extra: string[] = [];
+        let error: Error | undefined;
+
+        for (const arg of args) {
+            if (arg instanceof Error) {
+                error = arg;
+            } else if (isPlainObject(arg)) {
+                Object.assign(fields, arg);
+            } else {
+                extra.push(String(arg));
+            }
+        }
+        if (suppressed > 0) {
+            fields.suppressed = suppressed;
+        }
+
         const timestamp = new Date().toISOString();
-        const formattedMessage = args.length > 0 ? `${message} ${args.join(' ')}` : message;
-        return `${timestamp} - ${this.name} - ${level} - ${formattedMessage}`;
+        const formattedMessage = extra.length > 0 ? `${message} ${extra.join(' ')}` : message;
+
+        if (settings.format === 'json') {
+            return JSON.stringify({
+                timestamp,
+                level,
+                logger: this.name,
+                message: formattedMessage,
+                ...fields,
+                ...(error && { error: { name: error.name, message: error.message, stack: error.stack } }),
+            });
+        }
+
+        if (error) {
+            fields.error = error.message;
+        }
+        const context = Object.entries(fields)
+            .filter(([, value]) => value !== undefined)
+            .map(([key, value]) => ` ${key}=${formatValue(value)}`)
+            .join('');
+        // Stacks make the text format multi-line, so they are only shown when debugging
+        const stack = error?.stack && settings.level === 'DEBUG' ? `\n${error.stack}` : '';
+        return `${timestamp} - ${this.name} - ${level} - ${formattedMessage}${context}${stack}`;
     }
 
-    debug(message: string, ...args: unknown[]): void {
-        if (this.shouldLog('DEBUG')) {
-            console.debug(this.format('DEBUG', message, ...args));
+    private log(level: LogLevel, message: string, args: unknown[]): void {
+        if (!this.shouldLog(level)) {
+            return;
+        }
+        const suppressed = this.sample(level, message);
+        if (suppressed !== null) {
+            console[CONSOLE_METHODS[level]](this.format(level, message, args, suppressed));
         }
     }
 
+    debug(message: string, ...args: unknown[]): void {
+        this.log('DEBUG', message, args);
+    }
+
     info(message: string, ...args: unknown[]): void {
-        if (this.shouldLog('INFO')) {
-            console.info(this.format('INFO', message, ...args));
-        }
+        this.log('INFO', message, args);
     }
 
     warning(message: string, ...args: unknown[]): void {
-        if (this.shouldLog('WARNING')) {
-            console.warn(this.format('WARNING', message, ...args));
-        }
+        this.log('WARNING', message, args);
     }
 
     error(message: string, ...args: unknown[]): void {
-        if (this.shouldLog('ERROR')) {
-            console.error(this.format('ERROR', message, ...args));
-        }
+        this.log('ERROR', message, args);
     }
 }
 
+export type { Logger };
+
 // Create the default logger instance
 export const logger = new Logger('ollama-exporter');
 
-// Export function to set log level
-export function setLogLevel(level: LogLevel): void {
-    logger.setLevel(level);
+/**
+ * Apply the logging options, shared by the default logger and all child loggers
+ */
+export function configureLogging(options: { level: LogLevel; format: LogFormat; sampleInterval: number }): void {
+    settings.level = options.level;
+    settings.format = options.format;
+    if (options.sampleInterval !== settings.sampleInterval) {
+        sampledMessages.clear();
+    }
+    settings.sampleInterval = options.sampleInterval;
 }
@@ -1,97 +1,535 @@
-import { Registry, Gauge, Counter, Histogram } from 'prom-client';
-
-// Create a custom registry
-export const REGISTRY = new Registry();
-
-// Exporter metrics
-export const EXPORTER_INFO = new Gauge<'version' | 'ollama_host' | 'node_version'>({
-    name: 'ollama_exporter_build_info',
-    help: 'Ollama exporter build information',
-    labelNames: ['version', 'ollama_host', 'node_version'],
-    registers: [REGISTRY],
-});
-
-// Ollama server metrics
-export const OLLAMA_UP = new Gauge({
-    name: 'ollama_up',
-    help: 'Whether the Ollama server is responding',
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_VERSION_INFO = new Gauge<'version'>({
-    name: 'ollama_version_info',
-    help: 'Ollama version information',
-    labelNames: ['version'],
-    registers: [REGISTRY],
-});
-
-// Model metrics
-export const OLLAMA_MODELS_TOTAL = new Gauge({
-    name: 'ollama_models_total',
-    help: 'Total number of models available',
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_MODEL_INFO = new Gauge<
-    'model_name' | 'family' | 'format' | 'parameter_size' | 'quantization_level' | 'parent_model'
->({
-    name: 'ollama_model_info',
-    help: 'Model information',
-    labelNames: ['model_name', 'family', 'format', 'parameter_size', 'quantization_level', 'parent_model'],
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_MODEL_SIZE_BYTES = new Gauge<'model_name'>({
-    name: 'ollama_model_size_bytes',
-    help: 'Model size in bytes',
-    labelNames: ['model_name'],
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_MODEL_MODIFIED_TIMESTAMP = new Gauge<'model_name'>({
-    name: 'ollama_model_modified_timestamp_seconds',
-    help: 'Model last modified timestamp',
-    labelNames: ['model_name'],
-    registers: [REGISTRY],
-});
-
-// Running model metrics
-export const OLLAMA_RUNNING_MODELS = new Gauge<'model_name'>({
-    name: 'ollama_running_models',
-    help: 'Currently loaded models',
-    labelNames: ['model_name'],
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_MODEL_MEMORY_BYTES = new Gauge<'model_name'>({
-    name: 'ollama_model_memory_bytes',
-    help: 'Memory used by running model',
-    labelNames: ['model_name'],
-    registers: [REGISTRY],
-});
-
-// Exporter operation metrics
-export const OLLAMA_EXPORTER_SCRAPE_DURATION = new Histogram<'operation'>({
-    name: 'ollama_exporter_scrape_duration_seconds',
-    help: 'Time spent scraping Ollama',
-    labelNames: ['operation'],
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_EXPORTER_SCRAPES_TOTAL = new Counter<'status'>({
-    name: 'ollama_exporter_scrapes_total',
-    help: 'Total number of scrapes',
-    labelNames: ['status'],
-    registers: [REGISTRY],
-});
-
-export const OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP = new Gauge({
-    name: 'ollama_exporter_last_scrape_timestamp_seconds',
-    help: 'Last successful scrape timestamp',
-    registers: [REGISTRY],
-});
-
-// Helper to generate metrics
-export async function generateMetrics(): Promise<string> {
-    return await REGISTRY.metrics();
+import { Registry, Gauge, Counter, Histogram, type RegistryContentType } from 'prom-client';
+
+/**
+ * Create a registry for the exporter's metrics. It is an OpenMetrics registry so that exemplars can be
+ * recorded, the exposition decides which format is served.
+ */
+export function createRegistry(): Registry {
+    const registry = new Registry<RegistryContentType>();
+    registry.setContentType(Registry.OPENMETRICS_CONTENT_TYPE);
+    // The metric constructors only accept registries typed for the classic format
+    return registry as Registry;
+}
+
+export interface OllamaMetrics {
+    EXPORTER_INFO: Gauge<'version' | 'ollama_host' | 'node_version'>;
+    OLLAMA_UP: Gauge<'ollama_host'>;
+    OLLAMA_VERSION_INFO: Gauge<'ollama_host' | 'version'>;
+    OLLAMA_MODELS_TOTAL: Gauge<'ollama_host'>;
+    OLLAMA_MODEL_INFO: Gauge<
+        'ollama_host' | 'model_name' | 'family' | 'format' | 'parameter_size' | 'quantization_level' | 'parent_model'
+    >;
+    OLLAMA_MODEL_SIZE_BYTES: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_MODIFIED_TIMESTAMP: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_METADATA_INFO: Gauge<'ollama_host' | 'model_name' | 'architecture' | 'has_license' | 'has_template'>;
+    OLLAMA_MODEL_CAPABILITY: Gauge<'ollama_host' | 'model_name' | 'capability'>;
+    OLLAMA_MODEL_CONTEXT_LENGTH: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_EMBEDDING_LENGTH: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_PARAMETERS: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_RUNNING_MODELS: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_MEMORY_BYTES: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_RUNNING_MODEL_SIZE_BYTES: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_RUNNING_MODEL_VRAM_RATIO: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_RUNNING_MODEL_EXPIRES_SECONDS: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_RUNNING_MODEL_CONTEXT_LENGTH: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_LOADS_TOTAL: Counter<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_UNLOADS_TOTAL: Counter<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_PULLS_TOTAL: Counter<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_DELETIONS_TOTAL: Counter<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_LOADED_SECONDS_TOTAL: Counter<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_LOAD_AGE_SECONDS: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_MODEL_RESIDENCY_SECONDS: Histogram<'ollama_host' | 'model_name'>;
+    OLLAMA_EXPORTER_SCRAPE_DURATION: Histogram<'ollama_host' | 'operation'>;
+    OLLAMA_EXPORTER_SCRAPES_TOTAL: Counter<'ollama_host' | 'status'>;
+    OLLAMA_EXPORTER_COLLECTOR_SUCCESS: Gauge<'ollama_host' | 'collector'>;
+    OLLAMA_EXPORTER_COLLECTOR_DURATION: Gauge<'ollama_host' | 'collector'>;
+    OLLAMA_EXPORTER_API_REQUESTS_TOTAL: Counter<'ollama_host' | 'endpoint' | 'status_code'>;
+    OLLAMA_EXPORTER_API_REQUEST_DURATION: Histogram<'ollama_host' | 'endpoint'>;
+    OLLAMA_EXPORTER_API_RESPONSE_SIZE_BYTES: Histogram<'ollama_host' | 'endpoint'>;
+    OLLAMA_EXPORTER_API_ERRORS_TOTAL: Counter<'ollama_host' | 'endpoint' | 'reason'>;
+    OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL: Counter<'ollama_host' | 'endpoint'>;
+    OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP: Gauge<'ollama_host'>;
+}
+
+/**
+ * Create the exporter's metric set and register it with the given registry.
+ * Each registry gets its own instances, so request-scoped registries (e.g. for /probe)
+ * never leak series into the main /metrics output.
+ */
+export function createMetrics(registry: Registry): OllamaMetrics {
+    return {
+        // Exporter metrics
+        EXPORTER_INFO: new Gauge<'version' | 'ollama_host' | 'node_version'>({
+            name: 'ollama_exporter_build_info',
+            help: 'Ollama exporter build information',
+            labelNames: ['version', 'ollama_host', 'node_version'],
+            registers: [registry],
+        }),
+
+        // Ollama server metrics
+        OLLAMA_UP: new Gauge<'ollama_host'>({
+            name: 'ollama_up',
+            help: 'Whether the Ollama server is responding',
+            labelNames: ['ollama_host'],
+            registers: [registry],
+        }),
+
+        OLLAMA_VERSION_INFO: new Gauge<'ollama_host' | 'version'>({
+            name: 'ollama_version_info',
+            help: 'Ollama version information',
+            labelNames: ['ollama_host', 'version'],
+            registers: [registry],
+        }),
+
+        // Model metrics
+        OLLAMA_MODELS_TOTAL: new Gauge<'ollama_host'>({
+            name: 'ollama_models_total',
+            help: 'Total number of models available',
+            labelNames: ['ollama_host'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_INFO: new Gauge<
+            | 'ollama_host'
+            | 'model_name'
+            | 'family'
+            | 'format'
+            | 'parameter_size'
+            | 'quantization_level'
+            | 'parent_model'
+        >({
+            name: 'ollama_model_info',
+            help: 'Model information',
+            labelNames: [
+                'ollama_host',
+                'model_name',
+                'family',
+                'format',
+                'parameter_size',
+                'quantization_level',
+                'parent_model',
+            ],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_SIZE_BYTES: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_size_bytes',
+            help: 'Model size in bytes',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_MODIFIED_TIMESTAMP: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_modified_timestamp_seconds',
+            help: 'Model last modified timestamp',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        // Model metadata from /api/show
+        OLLAMA_MODEL_METADATA_INFO: new Gauge<
+            'ollama_host' | 'model_name' | 'architecture' | 'has_license' | 'has_template'
+        >({
+            name: 'ollama_model_metadata_info',
+            help: 'Model metadata reported by /api/show',
+            labelNames: ['ollama_host', 'model_name', 'architecture', 'has_license', 'has_template'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_CAPABILITY: new Gauge<'ollama_host' | 'model_name' | 'capability'>({
+            name: 'ollama_model_capability',
+            help: 'Capabilities supported by model (completion, tools, vision, embedding, ...)',
+            labelNames: ['ollama_host', 'model_name', 'capability'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_CONTEXT_LENGTH: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_context_length',
+            help: 'Native context window of model in tokens',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_EMBEDDING_LENGTH: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_embedding_length',
+            help: 'Embedding length of model',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_PARAMETERS: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_parameters',
+            help: 'Number of parameters in model',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        // Running model metrics
+        OLLAMA_RUNNING_MODELS: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_running_models',
+            help: 'Currently loaded models',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_MEMORY_BYTES: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_memory_bytes',
+            help: 'Memory used by running model',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_RUNNING_MODEL_SIZE_BYTES: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_running_model_size_bytes',
+            help: 'Total memory used by running model across VRAM and system RAM',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_RUNNING_MODEL_VRAM_RATIO: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_running_model_vram_ratio',
+            help: 'Fraction of running model loaded into VRAM (1 means fully on GPU)',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_RUNNING_MODEL_EXPIRES_SECONDS: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_running_model_expires_in_seconds',
+            help: 'Seconds until running model is unloaded',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_RUNNING_MODEL_CONTEXT_LENGTH: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_running_model_context_length',
+            help: 'Context length running model was loaded with',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        // Model lifecycle metrics, counted from changes between scrapes
+        OLLAMA_MODEL_LOADS_TOTAL: new Counter<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_loads_total',
+            help: 'Times the model was seen being loaded into memory',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_UNLOADS_TOTAL: new Counter<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_unloads_total',
+            help: 'Times the model was seen being unloaded from memory',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_PULLS_TOTAL: new Counter<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_pulls_total',
+            help: 'Times the model appeared or its digest changed',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_DELETIONS_TOTAL: new Counter<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_deletions_total',
+            help: 'Times the model was seen being deleted',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        // Model residency metrics, accurate to the scrape interval
+        OLLAMA_MODEL_LOADED_SECONDS_TOTAL: new Counter<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_loaded_seconds_total',
+            help: 'Total time the model was seen loaded into memory',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_LOAD_AGE_SECONDS: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_load_age_seconds',
+            help: 'Time since the currently loaded model was first seen loaded',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_MODEL_RESIDENCY_SECONDS: new Histogram<'ollama_host' | 'model_name'>({
+            name: 'ollama_model_residency_seconds',
+            help: 'Time models stayed loaded, observed when they are unloaded',
+            labelNames: ['ollama_host', 'model_name'],
+            buckets: [60, 300, 900, 1800, 3600, 7200, 14400, 43200, 86400],
+            registers: [registry],
+        }),
+
+        // Exporter operation metrics
+        OLLAMA_EXPORTER_SCRAPE_DURATION: new Histogram<'ollama_host' | 'operation'>({
+            name: 'ollama_exporter_scrape_duration_seconds',
+            help: 'Time spent scraping Ollama',
+            labelNames: ['ollama_host', 'operation'],
+            // Links each bucket to the scrape that last fell into it, only possible on OpenMetrics registries
+            enableExemplars: (registry.contentType as RegistryContentType) === Registry.OPENMETRICS_CONTENT_TYPE,
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_SCRAPES_TOTAL: new Counter<'ollama_host' | 'status'>({
+            name: 'ollama_exporter_scrapes_total',
+            help: 'Total number of scrapes',
+            labelNames: ['ollama_host', 'status'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_COLLECTOR_SUCCESS: new Gauge<'ollama_host' | 'collector'>({
+            name: 'ollama_exporter_collector_success',
+            help: 'Whether the collector succeeded in the last scrape',
+            labelNames: ['ollama_host', 'collector'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_COLLECTOR_DURATION: new Gauge<'ollama_host' | 'collector'>({
+            name: 'ollama_exporter_collector_duration_seconds',
+            help: 'Duration of the collector in the last scrape',
+            labelNames: ['ollama_host', 'collector'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_API_REQUESTS_TOTAL: new Counter<'ollama_host' | 'endpoint' | 'status_code'>({
+            name: 'ollama_exporter_api_requests_total',
+            help: 'Ollama API requests made by the exporter, by HTTP status ("none" when no response was received)',
+            labelNames: ['ollama_host', 'endpoint', 'status_code'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_API_REQUEST_DURATION: new Histogram<'ollama_host' | 'endpoint'>({
+            name: 'ollama_exporter_api_request_duration_seconds',
+            help: 'Duration of Ollama API requests made by the exporter, including retries',
+            labelNames: ['ollama_host', 'endpoint'],
+            buckets: [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_API_RESPONSE_SIZE_BYTES: new Histogram<'ollama_host' | 'endpoint'>({
+            name: 'ollama_exporter_api_response_size_bytes',
+            help: 'Body size of Ollama API responses received by the exporter',
+            labelNames: ['ollama_host', 'endpoint'],
+            buckets: [256, 1024, 4096, 16384, 65536, 262144, 1048576, 4194304],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_API_ERRORS_TOTAL: new Counter<'ollama_host' | 'endpoint' | 'reason'>({
+            name: 'ollama_exporter_api_errors_total',
+            help: 'Failed Ollama API requests made by the exporter, by failure reason',
+            labelNames: ['ollama_host', 'endpoint', 'reason'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL: new Counter<'ollama_host' | 'endpoint'>({
+            name: 'ollama_exporter_response_validation_errors_total',
+            help: 'Ollama API responses or list entries rejected because they did not have the expected shape',
+            labelNames: ['ollama_host', 'endpoint'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_LAST_SCRAPE_TIMESTAMP: new Gauge<'ollama_host'>({
+            name: 'ollama_exporter_last_scrape_timestamp_seconds',
+            help: 'Last successful scrape timestamp',
+            labelNames: ['ollama_host'],
+            registers: [registry],
+        }),
+    };
+}
+
+// Ollama reports inference durations of up to several minutes
+const INFERENCE_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300];
+
+export interface ProxyMetrics {
+    OLLAMA_PROXY_REQUESTS_TOTAL: Counter<'ollama_host' | 'model_name' | 'endpoint' | 'status_code'>;
+    OLLAMA_PROXY_PROMPT_TOKENS_TOTAL: Counter<'ollama_host' | 'model_name' | 'endpoint'>;
+    OLLAMA_PROXY_EVAL_TOKENS_TOTAL: Counter<'ollama_host' | 'model_name' | 'endpoint'>;
+    OLLAMA_PROXY_REQUEST_DURATION: Histogram<'ollama_host' | 'model_name' | 'endpoint'>;
+    OLLAMA_PROXY_LOAD_DURATION: Histogram<'ollama_host' | 'model_name' | 'endpoint'>;
+}
+
+/**
+ * Create the inference traffic metrics recorded by the reverse proxy
+ */
+export function createProxyMetrics(registry: Registry): ProxyMetrics {
+    return {
+        OLLAMA_PROXY_REQUESTS_TOTAL: new Counter<'ollama_host' | 'model_name' | 'endpoint' | 'status_code'>({
+            name: 'ollama_proxy_requests_total',
+            help: 'Total number of inference requests forwarded to Ollama',
+            labelNames: ['ollama_host', 'model_name', 'endpoint', 'status_code'],
+            registers: [registry],
+        }),
+
+        OLLAMA_PROXY_PROMPT_TOKENS_TOTAL: new Counter<'ollama_host' | 'model_name' | 'endpoint'>({
+            name: 'ollama_proxy_prompt_tokens_total',
+            help: 'Total number of prompt tokens evaluated',
+            labelNames: ['ollama_host', 'model_name', 'endpoint'],
+            registers: [registry],
+        }),
+
+        OLLAMA_PROXY_EVAL_TOKENS_TOTAL: new Counter<'ollama_host' | 'model_name' | 'endpoint'>({
+            name: 'ollama_proxy_eval_tokens_total',
+            help: 'Total number of tokens generated',
+            labelNames: ['ollama_host', 'model_name', 'endpoint'],
+            registers: [registry],
+        }),
+
+        OLLAMA_PROXY_REQUEST_DURATION: new Histogram<'ollama_host' | 'model_name' | 'endpoint'>({
+            name: 'ollama_proxy_request_duration_seconds',
+            help: 'Total inference request duration as reported by Ollama',
+            labelNames: ['ollama_host', 'model_name', 'endpoint'],
+            buckets: INFERENCE_DURATION_BUCKETS,
+            registers: [registry],
+        }),
+
+        OLLAMA_PROXY_LOAD_DURATION: new Histogram<'ollama_host' | 'model_name' | 'endpoint'>({
+            name: 'ollama_proxy_load_duration_seconds',
+            help: 'Time spent loading the model for an inference request',
+            labelNames: ['ollama_host', 'model_name', 'endpoint'],
+            buckets: INFERENCE_DURATION_BUCKETS,
+            registers: [registry],
+        }),
+    };
+}
+
+export interface GenerationProbeMetrics {
+    OLLAMA_GENERATION_PROBE_SUCCESS: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_GENERATION_PROBE_DURATION: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_GENERATION_PROBE_TTFT: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_GENERATION_PROBE_LOAD_DURATION: Gauge<'ollama_host' | 'model_name'>;
+    OLLAMA_GENERATION_PROBE_TOKENS_PER_SECOND: Gauge<'ollama_host' | 'model_name'>;
+}
+
+/**
+ * Create the metrics reported by the synthetic generation probe
+ */
+export function createGenerationProbeMetrics(registry: Registry): GenerationProbeMetrics {
+    return {
+        OLLAMA_GENERATION_PROBE_SUCCESS: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_generation_probe_success',
+            help: 'Whether the last synthetic generation probe succeeded',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_GENERATION_PROBE_DURATION: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_generation_probe_duration_seconds',
+            help: 'Wall-clock duration of the last synthetic generation probe',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_GENERATION_PROBE_TTFT: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_generation_probe_time_to_first_token_seconds',
+            help: 'Time to first token of the last synthetic generation probe (load plus prompt evaluation)',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_GENERATION_PROBE_LOAD_DURATION: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_generation_probe_load_duration_seconds',
+            help: 'Model load duration of the last synthetic generation probe',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+
+        OLLAMA_GENERATION_PROBE_TOKENS_PER_SECOND: new Gauge<'ollama_host' | 'model_name'>({
+            name: 'ollama_generation_probe_eval_tokens_per_second',
+            help: 'Generation speed of the last synthetic generation probe',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }),
+    };
+}
+
+export interface ReloadMetrics {
+    OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESSFUL: Gauge;
+    OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESS_TIMESTAMP: Gauge;
+}
+
+/**
+ * Metrics describing the exporter process itself rather than a scraped target
+ */
+export function createReloadMetrics(registry: Registry): ReloadMetrics {
+    return {
+        OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESSFUL: new Gauge({
+            name: 'ollama_exporter_config_last_reload_successful',
+            help: 'Whether the last configuration reload attempt was successful',
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_CONFIG_LAST_RELOAD_SUCCESS_TIMESTAMP: new Gauge({
+            name: 'ollama_exporter_config_last_reload_success_timestamp_seconds',
+            help: 'Timestamp of the last successful configuration load',
+            registers: [registry],
+        }),
+    };
+}
+
+export interface OtlpMetrics {
+    OLLAMA_EXPORTER_OTLP_EXPORTS_TOTAL: Counter<'result'>;
+    OLLAMA_EXPORTER_OTLP_BUFFERED_BATCHES: Gauge;
+}
+
+/**
+ * Create the metrics describing OTLP pushes to an OpenTelemetry collector
+ */
+export function createOtlpMetrics(registry: Registry): OtlpMetrics {
+    return {
+        OLLAMA_EXPORTER_OTLP_EXPORTS_TOTAL: new Counter<'result'>({
+            name: 'ollama_exporter_otlp_exports_total',
+            help: 'OTLP export attempts by result (success, retry, rejected, dropped)',
+            labelNames: ['result'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_OTLP_BUFFERED_BATCHES: new Gauge({
+            name: 'ollama_exporter_otlp_buffered_batches',
+            help: 'Metric batches waiting to be delivered to the OTLP collector',
+            registers: [registry],
+        }),
+    };
+}
+
+export interface PushMetrics {
+    OLLAMA_EXPORTER_PUSHES_TOTAL: Counter<'mode' | 'status'>;
+    OLLAMA_EXPORTER_LAST_PUSH_SUCCESS_TIMESTAMP: Gauge<'mode'>;
+}
+
+/**
+ * Create the metrics describing pushes to a Pushgateway or remote-write endpoint
+ */
+export function createPushMetrics(registry: Registry): PushMetrics {
+    return {
+        OLLAMA_EXPORTER_PUSHES_TOTAL: new Counter<'mode' | 'status'>({
+            name: 'ollama_exporter_pushes_total',
+            help: 'Metric pushes to a Pushgateway or remote-write endpoint by mode and status (success, failure)',
+            labelNames: ['mode', 'status'],
+            registers: [registry],
+        }),
+
+        OLLAMA_EXPORTER_LAST_PUSH_SUCCESS_TIMESTAMP: new Gauge<'mode'>({
+            name: 'ollama_exporter_last_push_success_timestamp_seconds',
+            help: 'Timestamp of the last successful metric push',
+            labelNames: ['mode'],
+            registers: [registry],
+        }),
+    };
+}
+
+export interface ModelFilterMetrics {
+    OLLAMA_EXPORTER_MODEL_OVERFLOW_TOTAL: Counter<'ollama_host'>;
+}
+
+/**
+ * Create the metrics of the model filter
+ */
+export function createModelFilterMetrics(registry: Registry): ModelFilterMetrics {
+    return {
+        OLLAMA_EXPORTER_MODEL_OVERFLOW_TOTAL: new Counter<'ollama_host'>({
+            name: 'ollama_exporter_model_overflow_total',
+            help: 'Models left out of the exported metrics because the max-models cap was reached',
+            labelNames: ['ollama_host'],
+            registers: [registry],
+        }),
+    };
 }
@@ -0,0 +1,81 @@
+import { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { describe, it, expect, beforeEach } from 'vitest';
+import { ModelEventStream, type ExporterEvents, type ModelEvent } from './model-events.ts';
+
+class MockResponse extends EventEmitter {
+    chunks: string[] = [];
+    headers?: Record<string, string>;
+    ended = false;
+
+    writeHead(_status: number, headers: Record<string, string>): this {
+        this.headers = headers;
+        return this;
+    }
+
+    write(chunk: string): boolean {
+        this.chunks.push(chunk);
+        return true;
+    }
+
+    end(): void {
+        this.ended = true;
+        this.emit('close');
+    }
+}
+
+function connect(stream: ModelEventStream, lastEventId?: string): MockResponse {
+    const req = { headers: lastEventId ? { 'last-event-id': lastEventId } : {} } as IncomingMessage;
+    const res = new MockResponse();
+    stream.handle(req, res as unknown as ServerResponse);
+    return res;
+}
+
+function modelEvent(type: ModelEvent['type'], model: string): ModelEvent {
+    return { type, host: 'localhost:11434', model, timestamp: '2026-01-12T09:30:00.000Z' };
+}
+
+describe('ModelEventStream', () => {
+    let source: EventEmitter<ExporterEvents>;
+    let stream: ModelEventStream;
+
+    beforeEach(() => {
+        source = new EventEmitter<ExporterEvents>();
+        stream = new ModelEventStream(source, 2);
+    });
+
+    it('should replay recent events and stream new ones to connected clients', () => {
+        source.emit('model', modelEvent('pulled', 'llama3:8b'));
+        source.emit('model', modelEvent('loaded', 'llama3:8b'));
+        source.emit('model', modelEvent('unloaded', 'llama3:8b'));
+
+        const res = connect(stream);
+        source.emit('model', modelEvent('deleted', 'llama3:8b'));
+
+        expect(res.headers?.['Content-Type']).toBe('text/event-stream');
+        expect(res.chunks).toEqual([
+            `id: 2\nevent: loaded\ndata: ${JSON.stringify(modelEvent('loaded', 'llama3:8b'))}\n\n`,
+            `id: 3\nevent: unloaded\ndata: ${JSON.stringify(modelEvent('unloaded', 'llama3:8b'))}\n\n`,
+            `id: 4\nevent: deleted\ndata: ${JSON.stringify(modelEvent('deleted', 'llama3:8b'))}\n\n`,
+        ]);
+    });
+
+    it('should only replay events after Last-Event-ID on reconnect', () => {
+        source.emit('model', modelEvent('loaded', 'llama3:8b'));
+        source.emit('model', modelEvent('loaded', 'qwen3:4b'));
+
+        const res = connect(stream, '1');
+
+        expect(res.chunks).toHaveLength(1);
+        expect(res.chunks[0]).toMatch(/^id: 2\n/);
+    });
+
+    it('should end open streams on close and stop writing to them', () => {
+        const res = connect(stream);
+        stream.close();
+        source.emit('model', modelEvent('loaded', 'llama3:8b'));
+
+        expect(res.ended).toBe(true);
+        expect(res.chunks).toEqual([]);
+    });
+});
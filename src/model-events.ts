@@ -0,0 +1,98 @@
+import type { EventEmitter } from 'node:events';
+import type { IncomingMessage, ServerResponse } from 'node:http';
+
+export const MODEL_EVENT_TYPES = ['pulled', 'updated', 'deleted', 'loaded', 'unloaded'] as const;
+export type ModelEventType = (typeof MODEL_EVENT_TYPES)[number];
+
+/**
+ * A model transition observed between two scrapes of the same target
+ */
+export interface ModelEvent {
+    type: ModelEventType;
+    /** Value of the `ollama_host` label */
+    host: string;
+    model: string;
+    digest?: string;
+    /** Digest before an update */
+    previousDigest?: string;
+    timestamp: string;
+}
+
+export interface ExporterEvents {
+    model: [ModelEvent];
+    updated: [];
+    shutdown: [];
+}
+
+// Comment lines keep idle connections open through proxies that time out silent responses
+const KEEPALIVE_INTERVAL = 30_000;
+
+/**
+ * Serves model events as a Server-Sent Events stream. Recent events are kept so that clients
+ * connecting (or reconnecting with Last-Event-ID) get the transitions they missed.
+ */
+export class ModelEventStream {
+    private readonly recent: { id: number; event: ModelEvent }[] = [];
+    private readonly clients = new Set<ServerResponse>();
+    private readonly capacity: number;
+    private nextId = 1;
+    private keepalive?: NodeJS.Timeout;
+
+    constructor(source: EventEmitter<ExporterEvents>, capacity = 100) {
+        this.capacity = capacity;
+        source.on('model', (event) => this.publish(event));
+    }
+
+    handle(req: IncomingMessage, res: ServerResponse): void {
+        res.writeHead(200, {
+            'Content-Type': 'text/event-stream',
+            'Cache-Control': 'no-cache',
+            Connection: 'keep-alive',
+        });
+
+        const lastEventId = Number(req.headers['last-event-id']);
+        for (const entry of this.recent) {
+            if (!Number.isInteger(lastEventId) || entry.id > lastEventId) {
+                this.write(res, entry.id, entry.event);
+            }
+        }
+
+        this.clients.add(res);
+        res.on('close', () => {
+            this.clients.delete(res);
+            if (this.clients.size === 0) {
+                clearInterval(this.keepalive);
+                this.keepalive = undefined;
+            }
+        });
+        this.keepalive ??= setInterval(() => {
+            for (const client of this.clients) {
+                client.write(': keepalive\n\n');
+            }
+        }, KEEPALIVE_INTERVAL).unref();
+    }
+
+    /**
+     * End all open streams, they would otherwise hold up a graceful shutdown
+     */
+    close(): void {
+        for (const client of this.clients) {
+            client.end();
+        }
+    }
+
+    private publish(event: ModelEvent): void {
+        const id = this.nextId++;
+        this.recent.push({ id, event });
+        if (this.recent.length > this.capacity) {
+            this.recent.shift();
+        }
+        for (const client of this.clients) {
+            this.write(client, id, event);
+        }
+    }
+
+    private write(res: ServerResponse, id: number, event: ModelEvent): void {
+        res.write(`id: ${id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    }
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { Counter, Gauge, type Registry } from 'prom-client';
+import { createRegistry } from './metrics.ts';
+import { logger } from './logger.ts';
+import { ModelFilter, type ModelFilterOptions } from './model-filter.ts';
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+const NO_FILTER: ModelFilterOptions = { include: [], exclude: [], split: [], maxModels: 0 };
+
+describe('ModelFilter', () => {
+    let registry: Registry;
+    let modelSize: Gauge;
+    let runningModels: Gauge;
+    let filter: ModelFilter;
+
+    // Labels of a metric in the filtered view of the registry
+    const exported = async (name: string): Promise<unknown[]> => {
+        const metric = (await filter.getMetricsAsJSON()).find((metric) => metric.name === name);
+        return metric?.values.map((sample) => sample.labels) ?? [];
+    };
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        registry = createRegistry();
+        modelSize = new Gauge({
+            name: 'ollama_model_size_bytes',
+            help: 'Size of the model in bytes',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        });
+        runningModels = new Gauge({
+            name: 'ollama_running_models',
+            help: 'Currently running models',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        });
+        new Gauge({
+            name: 'ollama_up',
+            help: 'Whether the Ollama server is responding',
+            labelNames: ['ollama_host'],
+            registers: [registry],
+        }).set({ ollama_host: 'gpu-1:11434' }, 1);
+        for (const model of ['llama3:8b', 'llama3:70b', 'qwen3:4b', 'llama3-test:latest']) {
+            modelSize.set({ ollama_host: 'gpu-1:11434', model_name: model }, 1);
+        }
+    });
+
+    it('should leave the registry untouched without configuration', async () => {
+        filter = new ModelFilter(registry, NO_FILTER);
+
+        expect(await exported('ollama_model_size_bytes')).toHaveLength(4);
+    });
+
+    it('should only export included models that are not excluded', async () => {
+        filter = new ModelFilter(registry, { ...NO_FILTER, include: ['^llama3'], exclude: ['-test'] });
+
+        expect(await exported('ollama_model_size_bytes')).toEqual([
+            { ollama_host: 'gpu-1:11434', model_name: 'llama3:8b' },
+            { ollama_host: 'gpu-1:11434', model_name: 'llama3:70b' },
+        ]);
+        expect(await exported('ollama_up')).toEqual([{ ollama_host: 'gpu-1:11434' }]);
+    });
+
+    it('should split model_name with the first matching pattern', async () => {
+        filter = new ModelFilter(registry, {
+            ...NO_FILTER,
+            split: ['^(?<model>[^:]+)-test:(?<tag>.+)$', '^(?<model>[^:]+):(?<tag>.+)$'],
+        });
+
+        expect(await exported('ollama_model_size_bytes')).toEqual([
+            { ollama_host: 'gpu-1:11434', model: 'llama3', tag: '8b' },
+            { ollama_host: 'gpu-1:11434', model: 'llama3', tag: '70b' },
+            { ollama_host: 'gpu-1:11434', model: 'qwen3', tag: '4b' },
+            { ollama_host: 'gpu-1:11434', model: 'llama3', tag: 'latest' },
+        ]);
+        // The series in prom-client keep their labels
+        expect((await modelSize.get()).values[0].labels).toHaveProperty('model_name', 'llama3:8b');
+        expect(logger.warning).not.toHaveBeenCalled();
+    });
+
+    it('should drop series whose split labels collide with another model', async () => {
+        filter = new ModelFilter(registry, { ...NO_FILTER, split: ['^(?<model>[^:-]+)'] });
+
+        expect(await exported('ollama_model_size_bytes')).toEqual([
+            { ollama_host: 'gpu-1:11434', model: 'llama3' },
+            { ollama_host: 'gpu-1:11434', model: 'qwen3' },
+        ]);
+        await exported('ollama_model_size_bytes');
+        expect(logger.warning).toHaveBeenCalledTimes(1);
+    });
+
+    it('should cap the models per host, keeping running models first, and count each overflowing model once', async () => {
+        filter = new ModelFilter(registry, { ...NO_FILTER, maxModels: 2 });
+        runningModels.set({ ollama_host: 'gpu-1:11434', model_name: 'qwen3:4b' }, 1);
+        await filter.update();
+
+        expect(await exported('ollama_model_size_bytes')).toEqual([
+            { ollama_host: 'gpu-1:11434', model_name: 'qwen3:4b' },
+            { ollama_host: 'gpu-1:11434', model_name: 'llama3-test:latest' },
+        ]);
+        await filter.update();
+        // Rendering does not count, only updates do
+        await exported('ollama_model_size_bytes');
+        expect(await exported('ollama_exporter_model_overflow_total')).toEqual([{ ollama_host: 'gpu-1:11434' }]);
+        const overflow = await registry.getSingleMetric('ollama_exporter_model_overflow_total')?.get();
+        expect(overflow?.values[0].value).toBe(2);
+    });
+
+    it('should only give installed and running models a slot under the cap', async () => {
+        filter = new ModelFilter(registry, { ...NO_FILTER, maxModels: 4 });
+        // A model deleted long ago still has its lifecycle counter
+        new Counter({
+            name: 'ollama_model_deletions_total',
+            help: 'Models that disappeared from the model list',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        }).inc({ ollama_host: 'gpu-1:11434', model_name: 'aaa-old:latest' });
+        await filter.update();
+
+        expect(await exported('ollama_model_size_bytes')).toHaveLength(4);
+        expect(await exported('ollama_exporter_model_overflow_total')).toEqual([]);
+    });
+
+    it('should apply a new configuration from the next render', async () => {
+        filter = new ModelFilter(registry, { ...NO_FILTER, exclude: ['.'] });
+        expect(await exported('ollama_model_size_bytes')).toEqual([]);
+
+        filter.configure(NO_FILTER);
+        expect(await exported('ollama_model_size_bytes')).toHaveLength(4);
+        expect(
+            (await registry.getMetricsAsJSON()).find((metric) => metric.name === 'ollama_model_size_bytes')?.values,
+        ).toHaveLength(4);
+    });
+});
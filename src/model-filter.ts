@@ -0,0 +1,206 @@
+import type { MetricObjectWithValues, MetricValue, Registry } from 'prom-client';
+import { logger } from './logger.ts';
+import { createModelFilterMetrics, type ModelFilterMetrics } from './metrics.ts';
+
+export interface ModelFilterOptions {
+    /** Only models matching one of these patterns are exported, all models when empty */
+    include: string[];
+    exclude: string[];
+    /** Patterns whose named groups replace the `model_name` label, the first matching one applies */
+    split: string[];
+    /** Models exported per Ollama host, 0 for no limit */
+    maxModels: number;
+}
+
+export type Metric = MetricObjectWithValues<MetricValue<string>>;
+
+type Sample = MetricValue<string> & { metricName?: string };
+
+// The metrics listing the models a host has, lifecycle counters and proxy series also name deleted models
+const INVENTORY_METRICS = new Set(['ollama_model_info', 'ollama_model_size_bytes', 'ollama_running_models']);
+
+/**
+ * Controls the cardinality of model series: drops models excluded by name or over the per-host cap and
+ * splits `model_name` into labels such as `model` and `tag`. It applies to the JSON view of the registry
+ * that the exposition, push and sink formats render, so the collectors keep tracking every model and
+ * a changed configuration applies without losing state.
+ */
+export class ModelFilter {
+    private readonly registry: Registry;
+    private include: RegExp[] = [];
+    private exclude: RegExp[] = [];
+    private split: RegExp[] = [];
+    private maxModels = 0;
+    private readonly metrics: ModelFilterMetrics;
+    // Models left out because of the cap, per host, as of the last update
+    private overflowed = new Map<string, Set<string>>();
+    private collisionLogged = false;
+
+    constructor(registry: Registry, options: ModelFilterOptions) {
+        this.registry = registry;
+        this.configure(options);
+        this.metrics = createModelFilterMetrics(registry);
+    }
+
+    /**
+     * Apply new options to everything rendered from now on, a changed cap from the next update
+     */
+    configure(options: ModelFilterOptions): void {
+        this.include = options.include.map((pattern) => new RegExp(pattern));
+        this.exclude = options.exclude.map((pattern) => new RegExp(pattern));
+        this.split = options.split.map((pattern) => new RegExp(pattern));
+        if (options.maxModels !== this.maxModels) {
+            this.overflowed.clear();
+        }
+        this.maxModels = options.maxModels;
+        this.collisionLogged = false;
+    }
+
+    private isConfigured(): boolean {
+        return this.include.length > 0 || this.exclude.length > 0 || this.split.length > 0 || this.maxModels > 0;
+    }
+
+    private selects(model: string): boolean {
+        return (
+            (this.include.length === 0 || this.include.some((pattern) => pattern.test(model))) &&
+            !this.exclude.some((pattern) => pattern.test(model))
+        );
+    }
+
+    /**
+     * Find the models over the cap of each host, called once per scrape after the collectors have run.
+     * Only models installed or running take a slot, running ones first, the rest by name. Each model is
+     * counted once when it starts overflowing.
+     */
+    async update(): Promise<void> {
+        if (this.maxModels === 0) {
+            return;
+        }
+
+        const models = new Map<string, Set<string>>();
+        const running = new Set<string>();
+        for (const metric of await this.registry.getMetricsAsJSON()) {
+            if (!INVENTORY_METRICS.has(metric.name)) {
+                continue;
+            }
+            for (const { labels } of metric.values) {
+                if (labels.model_name === undefined || !this.selects(String(labels.model_name))) {
+                    continue;
+                }
+                const host = String(labels.ollama_host ?? '');
+                const model = String(labels.model_name);
+                models.set(host, (models.get(host) ?? new Set()).add(model));
+                if (metric.name === 'ollama_running_models') {
+                    running.add(`${host}\n${model}`);
+                }
+            }
+        }
+
+        const overflowed = new Map<string, Set<string>>();
+        for (const [host, names] of models) {
+            const isRunning = (model: string): number => (running.has(`${host}\n${model}`) ? 0 : 1);
+            const sorted = [...names].sort((a, b) => isRunning(a) - isRunning(b) || (a < b ? -1 : a > b ? 1 : 0));
+            const over = new Set(sorted.slice(this.maxModels));
+            if (over.size === 0) {
+                continue;
+            }
+
+            const previous = this.overflowed.get(host);
+            const added = [...over].filter((model) => !previous?.has(model)).length;
+            if (added > 0) {
+                this.metrics.OLLAMA_EXPORTER_MODEL_OVERFLOW_TOTAL.inc({ ollama_host: host }, added);
+            }
+            overflowed.set(host, over);
+        }
+        this.overflowed = overflowed;
+    }
+
+    private splitLabels(labels: Sample['labels']): Sample['labels'] {
+        const model = String(labels.model_name);
+        const groups = this.split.map((pattern) => pattern.exec(model)?.groups).find((match) => match);
+        if (!groups) {
+            return labels;
+        }
+
+        // The new labels take the place of model_name, keeping the label order otherwise
+        const split: Sample['labels'] = {};
+        for (const [name, value] of Object.entries(labels)) {
+            if (name !== 'model_name') {
+                split[name] = value;
+                continue;
+            }
+            for (const [group, groupValue] of Object.entries(groups)) {
+                if (groupValue !== undefined) {
+                    split[group] = groupValue;
+                }
+            }
+        }
+        return split;
+    }
+
+    /**
+     * Filter and relabel the series of a registry's JSON view. Samples are never changed in place,
+     * prom-client hands out its internal objects.
+     */
+    apply(metrics: Metric[]): Metric[] {
+        if (!this.isConfigured()) {
+            return metrics;
+        }
+
+        const overflowed = this.maxModels > 0 ? this.overflowed : new Map<string, Set<string>>();
+        let collisions = 0;
+        const filtered = metrics.map((metric) => {
+            // Split patterns that leave out part of the name map several models to the same series,
+            // only the first one is kept since Prometheus rejects duplicate series
+            const seen = new Set<string>();
+            const values: Sample[] = [];
+            for (const sample of metric.values as Sample[]) {
+                const { labels } = sample;
+                if (labels.model_name === undefined) {
+                    values.push(sample);
+                    continue;
+                }
+                const model = String(labels.model_name);
+                if (!this.selects(model) || overflowed.get(String(labels.ollama_host ?? ''))?.has(model)) {
+                    continue;
+                }
+                if (this.split.length === 0) {
+                    values.push(sample);
+                    continue;
+                }
+
+                const split = { ...sample, labels: this.splitLabels(labels) };
+                const key = `${split.metricName ?? metric.name}${JSON.stringify(Object.entries(split.labels).sort())}`;
+                if (seen.has(key)) {
+                    collisions++;
+                    continue;
+                }
+                seen.add(key);
+                values.push(split);
+            }
+            return { ...metric, values };
+        });
+
+        if (collisions > 0 && !this.collisionLogged) {
+            this.collisionLogged = true;
+            logger.warning(
+                `Dropped ${collisions} series whose split model labels collide with another model, the split patterns should capture the whole name`,
+            );
+        }
+        return filtered;
+    }
+
+    /**
+     * The registry's metrics with the filter applied
+     */
+    async getMetricsAsJSON(): Promise<Metric[]> {
+        return this.apply(await this.registry.getMetricsAsJSON());
+    }
+}
+
+/**
+ * The metrics of a registry, through the model filter when one is configured
+ */
+export function collectMetrics(registry: Registry, modelFilter?: ModelFilter): Promise<Metric[]> {
+    return modelFilter ? modelFilter.getMetricsAsJSON() : registry.getMetricsAsJSON();
+}
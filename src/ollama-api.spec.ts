@@ -0,0 +1,37 @@
+import { describe, it, expect } from 'vitest';
+import { validateResponse } from './ollama-api.ts';
+
+describe('validateResponse', () => {
+    it('should keep valid models and report the invalid entries field by field', () => {
+        const result = validateResponse('tags', {
+            models: [
+                { name: 'llama3:8b', size: 4661224676, details: { family: 'llama' } },
+                { name: 'broken', size: '4.6 GB' },
+                { size: 1 },
+            ],
+        });
+
+        expect(result.data?.models.map((model) => model.name)).toEqual(['llama3:8b']);
+        expect(result.errors).toEqual([
+            expect.stringMatching(/^models\.1\.size: .*expected number/),
+            expect.stringMatching(/^models\.2\.name: /),
+        ]);
+    });
+
+    it('should treat a missing or null model list as empty', () => {
+        expect(validateResponse('ps', { models: null })).toEqual({ data: { models: [] }, errors: [] });
+        expect(validateResponse('ps', {})).toEqual({ data: { models: [] }, errors: [] });
+    });
+
+    it('should reject responses of the wrong shape as a whole', () => {
+        expect(validateResponse('tags', { models: 'none' })).toEqual({
+            data: null,
+            errors: [expect.stringMatching(/^models: /)],
+        });
+        expect(validateResponse('version', { version: 17 })).toEqual({
+            data: null,
+            errors: [expect.stringMatching(/^version: /)],
+        });
+        expect(validateResponse('show', null).errors).toEqual([expect.stringMatching(/^\(root\): /)]);
+    });
+});
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+/**
+ * Ollama API endpoints called by the exporter, relative to /api
+ */
+export const API_ENDPOINTS = ['version', 'tags', 'show', 'ps'] as const;
+export type ApiEndpoint = (typeof API_ENDPOINTS)[number];
+
+const modelDetailsSchema = z.object({
+    family: z.string().optional(),
+    format: z.string().optional(),
+    parameter_size: z.string().optional(),
+    quantization_level: z.string().optional(),
+    parent_model: z.string().optional(),
+});
+
+const modelSchema = z.object({
+    name: z.string().min(1),
+    size: z.number().nonnegative(),
+    digest: z.string().optional(),
+    modified_at: z.string().optional(),
+    details: modelDetailsSchema.default({}),
+});
+
+const runningModelSchema = z.object({
+    name: z.string().min(1),
+    model: z.string().optional(),
+    size: z.number().nonnegative().optional(),
+    size_vram: z.number().nonnegative().optional(),
+    digest: z.string().optional(),
+    expires_at: z.string().optional(),
+    context_length: z.number().int().nonnegative().optional(),
+    details: modelDetailsSchema.optional(),
+});
+
+const versionResponseSchema = z.object({
+    version: z.string(),
+});
+
+const showResponseSchema = z.object({
+    license: z.string().optional(),
+    template: z.string().optional(),
+    capabilities: z.array(z.string()).nullish(),
+    model_info: z.record(z.string(), z.unknown()).nullish(),
+});
+
+// Entries of model lists are validated one by one, so a single malformed model does not hide the others
+const modelListSchema = z.object({
+    models: z.array(z.unknown()).nullish(),
+});
+
+export type OllamaModel = z.infer<typeof modelSchema>;
+export type OllamaRunningModel = z.infer<typeof runningModelSchema>;
+export type OllamaShowResponse = z.infer<typeof showResponseSchema>;
+
+export interface ValidationResult<T> {
+    /** The validated response, null if it was unusable as a whole */
+    data: T | null;
+    /** One message per rejected response or list entry, naming every invalid field */
+    errors: string[];
+}
+
+function describeIssues(error: z.ZodError, prefix: PropertyKey[] = []): string {
+    return error.issues
+        .map((issue) => `${[...prefix, ...issue.path].map(String).join('.') || '(root)'}: ${issue.message}`)
+        .join('; ');
+}
+
+function validate<T>(schema: z.ZodType<T>, data: unknown): ValidationResult<T> {
+    const result = schema.safeParse(data);
+    return result.success ? { data: result.data, errors: [] } : { data: null, errors: [describeIssues(result.error)] };
+}
+
+function validateModelList<T>(entrySchema: z.ZodType<T>, data: unknown): ValidationResult<{ models: T[] }> {
+    const list = modelListSchema.safeParse(data);
+    if (!list.success) {
+        return { data: null, errors: [describeIssues(list.error)] };
+    }
+
+    const models: T[] = [];
+    const errors: string[] = [];
+    for (const [index, entry] of (list.data.models ?? []).entries()) {
+        const result = entrySchema.safeParse(entry);
+        if (result.success) {
+            models.push(result.data);
+        } else {
+            errors.push(describeIssues(result.error, ['models', index]));
+        }
+    }
+    return { data: { models }, errors };
+}
+
+const validators = {
+    version: (data: unknown): ValidationResult<z.infer<typeof versionResponseSchema>> =>
+        validate(versionResponseSchema, data),
+    tags: (data: unknown): ValidationResult<{ models: OllamaModel[] }> => validateModelList(modelSchema, data),
+    show: (data: unknown): ValidationResult<OllamaShowResponse> => validate(showResponseSchema, data),
+    ps: (data: unknown): ValidationResult<{ models: OllamaRunningModel[] }> =>
+        validateModelList(runningModelSchema, data),
+} satisfies Record<ApiEndpoint, (data: unknown) => ValidationResult<unknown>>;
+
+export type ApiResponse<E extends ApiEndpoint> = NonNullable<ReturnType<(typeof validators)[E]>['data']>;
+
+/**
+ * Check a decoded response body against the shape the exporter relies on. Invalid entries
+ * of model lists are dropped and reported while the valid ones are kept.
+ */
+export function validateResponse<E extends ApiEndpoint>(endpoint: E, data: unknown): ValidationResult<ApiResponse<E>> {
+    return validators[endpoint](data) as ValidationResult<ApiResponse<E>>;
+}
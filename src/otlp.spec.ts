@@ -0,0 +1,266 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Counter, Gauge, Histogram, type Registry } from 'prom-client';
+import { createRegistry } from './metrics.ts';
+import { collectOtlpMetrics, OtlpPusher, resolveOtlpEndpoint, type OtlpOptions } from './otlp.ts';
+
+vi.mock('./index.ts', () => ({
+    VERSION: '1.0.0',
+}));
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+interface ReceivedRequest {
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+}
+
+/**
+ * Local OTLP receiver answering each request with the next queued status, 200 once the queue is empty
+ */
+class StubReceiver {
+    readonly requests: ReceivedRequest[] = [];
+    readonly statuses: number[] = [];
+    private readonly server: Server;
+
+    constructor() {
+        this.server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => {
+                this.requests.push({ url: req.url, headers: req.headers, body: Buffer.concat(chunks) });
+                res.writeHead(this.statuses.shift() ?? 200).end();
+            });
+        });
+    }
+
+    async listen(): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+}
+
+function createTestMetrics(registry: Registry): void {
+    new Gauge({
+        name: 'ollama_version_info',
+        help: 'Ollama version information',
+        labelNames: ['ollama_host', 'version'],
+        registers: [registry],
+    }).set({ ollama_host: 'localhost:11434', version: '0.12.0' }, 1);
+    new Gauge({
+        name: 'ollama_model_size_bytes',
+        help: 'Size of the model in bytes',
+        labelNames: ['ollama_host', 'model_name'],
+        registers: [registry],
+    }).set({ ollama_host: 'localhost:11434', model_name: 'llama3:8b' }, 4661224676);
+    new Counter({
+        name: 'ollama_exporter_scrapes_total',
+        help: 'Total number of scrapes',
+        labelNames: ['ollama_host', 'status'],
+        registers: [registry],
+    }).inc({ ollama_host: 'localhost:11434', status: 'success' }, 3);
+    const histogram = new Histogram({
+        name: 'ollama_exporter_scrape_duration_seconds',
+        help: 'Time spent scraping Ollama',
+        labelNames: ['ollama_host', 'operation'],
+        buckets: [0.1, 1],
+        registers: [registry],
+    });
+    histogram.observe({ ollama_host: 'localhost:11434', operation: 'list_models' }, 0.05);
+    histogram.observe({ ollama_host: 'localhost:11434', operation: 'list_models' }, 0.5);
+    histogram.observe({ ollama_host: 'localhost:11434', operation: 'list_models' }, 5);
+}
+
+async function exports(registry: Registry, result: string): Promise<number | undefined> {
+    const metric = await registry.getSingleMetric('ollama_exporter_otlp_exports_total')?.get();
+    return metric?.values.find((sample) => sample.labels.result === result)?.value;
+}
+
+describe('resolveOtlpEndpoint', () => {
+    it.each([
+        ['http://collector:4318', 'http://collector:4318/v1/metrics'],
+        ['http://collector:4318/', 'http://collector:4318/v1/metrics'],
+        ['https://collector/otlp/v1/metrics', 'https://collector/otlp/v1/metrics'],
+    ])('should resolve %s to %s', (endpoint, expected) => {
+        expect(resolveOtlpEndpoint(endpoint)).toBe(expected);
+    });
+});
+
+describe('collectOtlpMetrics', () => {
+    it('should group metrics by target and convert them to OTLP data points', async () => {
+        const registry = createRegistry();
+        createTestMetrics(registry);
+        new Gauge({ name: 'ollama_exporter_up', help: 'Exporter up', registers: [registry] }).set(1);
+
+        const resources = await collectOtlpMetrics(registry, 1000n);
+
+        expect(resources).toHaveLength(2);
+        const [target, exporter] = resources;
+        expect(target.resource).toMatchObject({
+            'service.name': 'ollama-exporter',
+            'service.version': '1.0.0',
+            'ollama.host': 'localhost:11434',
+            'ollama.version': '0.12.0',
+        });
+        expect(exporter.resource).not.toHaveProperty('ollama.host');
+        expect(exporter.metrics.map((metric) => metric.name)).toEqual(['ollama_exporter_up']);
+
+        const byName = new Map(target.metrics.map((metric) => [metric.name, metric]));
+        expect(byName.get('ollama_model_size_bytes')).toMatchObject({
+            type: 'gauge',
+            unit: 'By',
+            dataPoints: [{ attributes: { model_name: 'llama3:8b' }, value: 4661224676 }],
+        });
+        expect(byName.get('ollama_exporter_scrapes_total')).toMatchObject({
+            type: 'sum',
+            dataPoints: [{ attributes: { status: 'success' }, startTimeUnixNano: 1000n, value: 3 }],
+        });
+        expect(byName.get('ollama_exporter_scrape_duration_seconds')).toMatchObject({
+            type: 'histogram',
+            unit: 's',
+            dataPoints: [
+                {
+                    attributes: { operation: 'list_models' },
+                    count: 3n,
+                    sum: 5.55,
+                    bucketCounts: [1n, 1n, 1n],
+                    explicitBounds: [0.1, 1],
+                },
+            ],
+        });
+    });
+});
+
+describe('OtlpPusher', () => {
+    let registry: Registry;
+    let receiver: StubReceiver;
+    let options: OtlpOptions;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        registry = createRegistry();
+        createTestMetrics(registry);
+        receiver = new StubReceiver();
+        options = {
+            endpoint: await receiver.listen(),
+            protocol: 'http/json',
+            timeout: 5,
+            headers: { Authorization: 'Bearer secret' },
+            bufferSize: 10,
+        };
+    });
+
+    afterEach(async () => {
+        await receiver.close();
+    });
+
+    it('should push OTLP/HTTP JSON to the collector', async () => {
+        await new OtlpPusher(registry, options).push();
+
+        expect(receiver.requests).toHaveLength(1);
+        const [request] = receiver.requests;
+        expect(request.url).toBe('/v1/metrics');
+        expect(request.headers['content-type']).toBe('application/json');
+        expect(request.headers.authorization).toBe('Bearer secret');
+
+        const body = JSON.parse(request.body.toString());
+        const [resourceMetrics] = body.resourceMetrics;
+        expect(resourceMetrics.resource.attributes).toContainEqual({
+            key: 'ollama.host',
+            value: { stringValue: 'localhost:11434' },
+        });
+        const metrics = resourceMetrics.scopeMetrics[0].metrics;
+        expect(metrics).toContainEqual(
+            expect.objectContaining({
+                name: 'ollama_exporter_scrapes_total',
+                sum: expect.objectContaining({
+                    aggregationTemporality: 2,
+                    isMonotonic: true,
+                    dataPoints: [expect.objectContaining({ asDouble: 3, timeUnixNano: expect.any(String) })],
+                }),
+            }),
+        );
+        expect(metrics).toContainEqual(
+            expect.objectContaining({
+                name: 'ollama_exporter_scrape_duration_seconds',
+                histogram: expect.objectContaining({
+                    dataPoints: [expect.objectContaining({ count: '3', bucketCounts: ['1', '1', '1'] })],
+                }),
+            }),
+        );
+    });
+
+    it('should push OTLP/HTTP protobuf to the collector', async () => {
+        await new OtlpPusher(registry, { ...options, protocol: 'http/protobuf' }).push();
+
+        const [request] = receiver.requests;
+        expect(request.headers['content-type']).toBe('application/x-protobuf');
+        // ExportMetricsServiceRequest.resource_metrics is field 1, length-delimited
+        expect(request.body[0]).toBe(0x0a);
+        expect(request.body.includes('ollama_exporter_scrapes_total')).toBe(true);
+        expect(request.body.includes('localhost:11434')).toBe(true);
+    });
+
+    it('should buffer batches while the collector is unavailable and deliver them later', async () => {
+        const pusher = new OtlpPusher(registry, options);
+        receiver.statuses.push(503);
+
+        await pusher.push();
+        expect(receiver.requests).toHaveLength(1);
+        expect((await registry.getSingleMetric('ollama_exporter_otlp_buffered_batches')?.get())?.values).toEqual([
+            { labels: {}, value: 1 },
+        ]);
+
+        await pusher.push();
+        // The buffered batch is retried before the new one
+        expect(receiver.requests).toHaveLength(3);
+        expect(await exports(registry, 'retry')).toBe(1);
+        expect(await exports(registry, 'success')).toBe(2);
+    });
+
+    it('should drop batches the collector rejects', async () => {
+        const pusher = new OtlpPusher(registry, options);
+        receiver.statuses.push(400);
+
+        await pusher.push();
+        await pusher.push();
+
+        expect(receiver.requests).toHaveLength(2);
+        expect(await exports(registry, 'rejected')).toBe(1);
+        expect(await exports(registry, 'success')).toBe(1);
+    });
+
+    it('should drop the oldest batch when the buffer is full', async () => {
+        const pusher = new OtlpPusher(registry, { ...options, bufferSize: 2 });
+        await receiver.close();
+
+        await pusher.push();
+        await pusher.push();
+        await pusher.push();
+
+        expect(await exports(registry, 'dropped')).toBe(1);
+        expect(await exports(registry, 'retry')).toBe(3);
+
+        receiver = new StubReceiver();
+        const endpoint = await receiver.listen();
+        pusher.reconfigure({ ...options, endpoint, bufferSize: 2 });
+        await pusher.push();
+
+        // Only the newest batches fit the buffer
+        expect(receiver.requests).toHaveLength(2);
+        expect(await exports(registry, 'dropped')).toBe(2);
+    });
+});
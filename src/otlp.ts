@@ -0,0 +1,471 @@
+import { hostname } from 'node:os';
+import type { Registry } from 'prom-client';
+import { logger } from './logger.ts';
+import { createOtlpMetrics, type OtlpMetrics } from './metrics.ts';
+import { collectMetrics, type ModelFilter } from './model-filter.ts';
+import { ProtobufWriter } from './protobuf.ts';
+import { VERSION } from './index.ts';
+
+export interface OtlpOptions {
+    endpoint: string;
+    protocol: 'http/protobuf' | 'http/json';
+    timeout: number; // seconds
+    headers: Record<string, string>;
+    // Batches kept for later delivery while the collector is unreachable
+    bufferSize: number;
+}
+
+// Statuses the OTLP specification marks as retryable, everything else rejects the batch for good
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+const AGGREGATION_TEMPORALITY_CUMULATIVE = 2;
+
+type Attributes = Record<string, string>;
+
+interface NumberDataPoint {
+    attributes: Attributes;
+    startTimeUnixNano?: bigint;
+    timeUnixNano: bigint;
+    value: number;
+}
+
+interface HistogramDataPoint {
+    attributes: Attributes;
+    startTimeUnixNano: bigint;
+    timeUnixNano: bigint;
+    count: bigint;
+    sum: number;
+    bucketCounts: bigint[];
+    explicitBounds: number[];
+}
+
+type OtlpMetric = { name: string; description: string; unit: string } & (
+    | { type: 'gauge' | 'sum'; dataPoints: NumberDataPoint[] }
+    | { type: 'histogram'; dataPoints: HistogramDataPoint[] }
+);
+
+export interface OtlpResourceMetrics {
+    resource: Attributes;
+    metrics: OtlpMetric[];
+}
+
+interface Sample {
+    value: number;
+    labels: Record<string, string | number | undefined>;
+    metricName?: string;
+}
+
+function nowUnixNano(): bigint {
+    return BigInt(Date.now()) * 1_000_000n;
+}
+
+/**
+ * Collectors are addressed by their base URL in most setups, the metrics path is then the OTLP default
+ */
+export function resolveOtlpEndpoint(endpoint: string): string {
+    const url = new URL(endpoint);
+    if (url.pathname === '/' || url.pathname === '') {
+        url.pathname = '/v1/metrics';
+    }
+    return url.toString();
+}
+
+function unitOf(name: string): string {
+    const base = name.replace(/_total$/, '');
+    if (base.endsWith('_seconds')) {
+        return 's';
+    }
+    if (base.endsWith('_bytes')) {
+        return 'By';
+    }
+    return base.endsWith('_ratio') ? '1' : '';
+}
+
+function toAttributes(labels: Sample['labels'], omit: string[] = []): Attributes {
+    const attributes: Attributes = {};
+    for (const [key, value] of Object.entries(labels)) {
+        if (value !== undefined && !omit.includes(key)) {
+            attributes[key] = String(value);
+        }
+    }
+    return attributes;
+}
+
+/**
+ * Convert the registry into one OTLP resource per Ollama target, moving the `ollama_host` label
+ * to the resource. Metrics of the exporter itself that are not per target form their own resource.
+ */
+export async function collectOtlpMetrics(
+    registry: Registry,
+    startTimeUnixNano: bigint,
+    modelFilter?: ModelFilter,
+): Promise<OtlpResourceMetrics[]> {
+    const timeUnixNano = nowUnixNano();
+    const metrics = await collectMetrics(registry, modelFilter);
+    const resources = new Map<string, OtlpResourceMetrics>();
+    const resourceFor = (host: string): OtlpResourceMetrics => {
+        let resource = resources.get(host);
+        if (!resource) {
+            resource = {
+                resource: {
+                    'service.name': 'ollama-exporter',
+                    'service.version': VERSION,
+                    'host.name': hostname(),
+                    ...(host && { 'ollama.host': host }),
+                },
+                metrics: [],
+            };
+            resources.set(host, resource);
+        }
+        return resource;
+    };
+
+    for (const metric of metrics) {
+        // Typed as an enum by prom-client, but the type name at runtime
+        const kind = String(metric.type);
+        const samplesByHost = new Map<string, Sample[]>();
+        for (const sample of metric.values as Sample[]) {
+            const host = sample.labels.ollama_host === undefined ? '' : String(sample.labels.ollama_host);
+            samplesByHost.set(host, [...(samplesByHost.get(host) ?? []), sample]);
+
+            if (metric.name === 'ollama_version_info' && sample.labels.version !== undefined) {
+                resourceFor(host).resource['ollama.version'] = String(sample.labels.version);
+            }
+        }
+
+        for (const [host, samples] of samplesByHost) {
+            const base = { name: metric.name, description: metric.help, unit: unitOf(metric.name) };
+            if (kind === 'histogram') {
+                resourceFor(host).metrics.push({
+                    ...base,
+                    type: 'histogram',
+                    dataPoints: toHistogramDataPoints(metric.name, samples, startTimeUnixNano, timeUnixNano),
+                });
+            } else if (kind === 'counter') {
+                resourceFor(host).metrics.push({
+                    ...base,
+                    type: 'sum',
+                    dataPoints: samples.map((sample) => ({
+                        attributes: toAttributes(sample.labels, ['ollama_host']),
+                        startTimeUnixNano,
+                        timeUnixNano,
+                        value: sample.value,
+                    })),
+                });
+            } else {
+                resourceFor(host).metrics.push({
+                    ...base,
+                    type: 'gauge',
+                    dataPoints: samples.map((sample) => ({
+                        attributes: toAttributes(sample.labels, ['ollama_host']),
+                        timeUnixNano,
+                        value: sample.value,
+                    })),
+                });
+            }
+        }
+    }
+    return [...resources.values()];
+}
+
+/**
+ * Prometheus histograms have cumulative `le` buckets, OTLP counts each bucket separately
+ */
+function toHistogramDataPoints(
+    name: string,
+    samples: Sample[],
+    startTimeUnixNano: bigint,
+    timeUnixNano: bigint,
+): HistogramDataPoint[] {
+    const series = new Map<
+        string,
+        { attributes: Attributes; buckets: [number, number][]; sum: number; count: number }
+    >();
+    for (const sample of samples) {
+        const attributes = toAttributes(sample.labels, ['ollama_host', 'le']);
+        const key = JSON.stringify(attributes);
+        let entry = series.get(key);
+        if (!entry) {
+            entry = { attributes, buckets: [], sum: 0, count: 0 };
+            series.set(key, entry);
+        }
+        if (sample.metricName === `${name}_bucket` && sample.labels.le !== '+Inf') {
+            entry.buckets.push([Number(sample.labels.le), sample.value]);
+        } else if (sample.metricName === `${name}_sum`) {
+            entry.sum = sample.value;
+        } else if (sample.metricName === `${name}_count`) {
+            entry.count = sample.value;
+        }
+    }
+
+    return [...series.values()].map(({ attributes, buckets, sum, count }) => {
+        buckets.sort(([a], [b]) => a - b);
+        const bucketCounts: bigint[] = [];
+        let previous = 0;
+        for (const [, cumulative] of buckets) {
+            bucketCounts.push(BigInt(cumulative - previous));
+            previous = cumulative;
+        }
+        bucketCounts.push(BigInt(count - previous));
+        return {
+            attributes,
+            startTimeUnixNano,
+            timeUnixNano,
+            count: BigInt(count),
+            sum,
+            bucketCounts,
+            explicitBounds: buckets.map(([bound]) => bound),
+        };
+    });
+}
+
+// proto3 JSON has no literal for non-finite doubles and represents 64-bit integers as strings
+function jsonDouble(value: number): number | string {
+    if (Number.isFinite(value)) {
+        return value;
+    }
+    return Number.isNaN(value) ? 'NaN' : value > 0 ? 'Infinity' : '-Infinity';
+}
+
+function jsonAttributes(attributes: Attributes): object[] {
+    return Object.entries(attributes).map(([key, value]) => ({ key, value: { stringValue: value } }));
+}
+
+/**
+ * Encode an ExportMetricsServiceRequest in the OTLP/HTTP JSON format
+ */
+export function encodeOtlpJson(resources: OtlpResourceMetrics[]): string {
+    return JSON.stringify({
+        resourceMetrics: resources.map(({ resource, metrics }) => ({
+            resource: { attributes: jsonAttributes(resource) },
+            scopeMetrics: [
+                {
+                    scope: { name: 'ollama-exporter', version: VERSION },
+                    metrics: metrics.map((metric) => {
+                        const base = { name: metric.name, description: metric.description, unit: metric.unit };
+                        if (metric.type === 'histogram') {
+                            const dataPoints = metric.dataPoints.map((point) => ({
+                                attributes: jsonAttributes(point.attributes),
+                                startTimeUnixNano: String(point.startTimeUnixNano),
+                                timeUnixNano: String(point.timeUnixNano),
+                                count: String(point.count),
+                                sum: jsonDouble(point.sum),
+                                bucketCounts: point.bucketCounts.map(String),
+                                explicitBounds: point.explicitBounds,
+                            }));
+                            return {
+                                ...base,
+                                histogram: { dataPoints, aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE },
+                            };
+                        }
+
+                        const dataPoints = metric.dataPoints.map((point) => ({
+                            attributes: jsonAttributes(point.attributes),
+                            ...(point.startTimeUnixNano !== undefined && {
+                                startTimeUnixNano: String(point.startTimeUnixNano),
+                            }),
+                            timeUnixNano: String(point.timeUnixNano),
+                            asDouble: jsonDouble(point.value),
+                        }));
+                        return metric.type === 'sum'
+                            ? {
+                                  ...base,
+                                  sum: {
+                                      dataPoints,
+                                      aggregationTemporality: AGGREGATION_TEMPORALITY_CUMULATIVE,
+                                      isMonotonic: true,
+                                  },
+                              }
+                            : { ...base, gauge: { dataPoints } };
+                    }),
+                },
+            ],
+        })),
+    });
+}
+
+function writeAttributes(writer: ProtobufWriter, field: number, attributes: Attributes): void {
+    for (const [key, value] of Object.entries(attributes)) {
+        // KeyValue { key = 1; AnyValue value = 2 { string_value = 1 } }
+        writer.message(field, (keyValue) => keyValue.string(1, key).message(2, (any) => any.string(1, value)));
+    }
+}
+
+function writeNumberDataPoint(writer: ProtobufWriter, point: NumberDataPoint): void {
+    if (point.startTimeUnixNano !== undefined) {
+        writer.fixed64(2, point.startTimeUnixNano);
+    }
+    writer.fixed64(3, point.timeUnixNano).double(4, point.value);
+    writeAttributes(writer, 7, point.attributes);
+}
+
+function writeHistogramDataPoint(writer: ProtobufWriter, point: HistogramDataPoint): void {
+    writer
+        .fixed64(2, point.startTimeUnixNano)
+        .fixed64(3, point.timeUnixNano)
+        .fixed64(4, point.count)
+        .double(5, point.sum)
+        .packedFixed64(6, point.bucketCounts)
+        .packedDouble(7, point.explicitBounds);
+    writeAttributes(writer, 9, point.attributes);
+}
+
+/**
+ * Encode an ExportMetricsServiceRequest in the OTLP/HTTP protobuf format. Field numbers are those of
+ * opentelemetry/proto/metrics/v1/metrics.proto.
+ */
+export function encodeOtlpProtobuf(resources: OtlpResourceMetrics[]): Uint8Array {
+    const request = new ProtobufWriter();
+    for (const { resource, metrics } of resources) {
+        request.message(1, (resourceMetrics) => {
+            resourceMetrics.message(1, (writer) => writeAttributes(writer, 1, resource));
+            resourceMetrics.message(2, (scopeMetrics) => {
+                scopeMetrics.message(1, (scope) => scope.string(1, 'ollama-exporter').string(2, VERSION));
+                for (const metric of metrics) {
+                    scopeMetrics.message(2, (writer) => {
+                        writer.string(1, metric.name).string(2, metric.description).string(3, metric.unit);
+                        if (metric.type === 'histogram') {
+                            writer.message(9, (histogram) => {
+                                for (const point of metric.dataPoints) {
+                                    histogram.message(1, (p) => writeHistogramDataPoint(p, point));
+                                }
+                                histogram.varint(2, AGGREGATION_TEMPORALITY_CUMULATIVE);
+                            });
+                        } else if (metric.type === 'sum') {
+                            writer.message(7, (sum) => {
+                                for (const point of metric.dataPoints) {
+                                    sum.message(1, (p) => writeNumberDataPoint(p, point));
+                                }
+                                sum.varint(2, AGGREGATION_TEMPORALITY_CUMULATIVE).bool(3, true);
+                            });
+                        } else {
+                            writer.message(5, (gauge) => {
+                                for (const point of metric.dataPoints) {
+                                    gauge.message(1, (p) => writeNumberDataPoint(p, point));
+                                }
+                            });
+                        }
+                    });
+                }
+            });
+        });
+    }
+    return request.finish();
+}
+
+/**
+ * Periodically pushes every metric of a registry to an OpenTelemetry collector over OTLP/HTTP.
+ * Batches that cannot be delivered are kept and sent first on the next push.
+ */
+export class OtlpPusher {
+    private readonly registry: Registry;
+    private readonly modelFilter?: ModelFilter;
+    private options: OtlpOptions;
+    private readonly fetch: typeof fetch;
+    private readonly metrics: OtlpMetrics;
+    // Start of the cumulative counters and histograms, the exporter does not know when they were created
+    private readonly startTimeUnixNano = nowUnixNano();
+    // Batches not delivered yet, oldest first
+    private readonly buffer: OtlpResourceMetrics[][] = [];
+    private pushInterval?: NodeJS.Timeout;
+    private pendingPush?: Promise<void>;
+
+    constructor(registry: Registry, options: OtlpOptions, modelFilter?: ModelFilter, fetchImpl: typeof fetch = fetch) {
+        this.registry = registry;
+        this.modelFilter = modelFilter;
+        this.options = { ...options, endpoint: resolveOtlpEndpoint(options.endpoint) };
+        this.fetch = fetchImpl;
+        this.metrics = createOtlpMetrics(registry);
+    }
+
+    getEndpoint(): string {
+        return this.options.endpoint;
+    }
+
+    /**
+     * Apply new options from the next push on, buffered batches are kept
+     */
+    reconfigure(options: OtlpOptions): void {
+        this.options = { ...options, endpoint: resolveOtlpEndpoint(options.endpoint) };
+    }
+
+    /**
+     * Collect the current metrics and send them along with any buffered batches.
+     * Calls made while a push is in flight share that push.
+     */
+    push(): Promise<void> {
+        this.pendingPush ??= this.collectAndSend().finally(() => {
+            this.pendingPush = undefined;
+        });
+        return this.pendingPush;
+    }
+
+    private async collectAndSend(): Promise<void> {
+        this.buffer.push(await collectOtlpMetrics(this.registry, this.startTimeUnixNano, this.modelFilter));
+        while (this.buffer.length > this.options.bufferSize) {
+            this.buffer.shift();
+            this.metrics.OLLAMA_EXPORTER_OTLP_EXPORTS_TOTAL.inc({ result: 'dropped' });
+            logger.warning('OTLP buffer full, dropping the oldest batch');
+        }
+
+        while (this.buffer.length > 0) {
+            const result = await this.send(this.buffer[0]);
+            this.metrics.OLLAMA_EXPORTER_OTLP_EXPORTS_TOTAL.inc({ result });
+            if (result === 'retry') {
+                break;
+            }
+            this.buffer.shift();
+        }
+        this.metrics.OLLAMA_EXPORTER_OTLP_BUFFERED_BATCHES.set(this.buffer.length);
+    }
+
+    private async send(batch: OtlpResourceMetrics[]): Promise<'success' | 'retry' | 'rejected'> {
+        const { endpoint, protocol, timeout, headers } = this.options;
+        const json = protocol === 'http/json';
+        try {
+            const response = await this.fetch(endpoint, {
+                method: 'POST',
+                headers: { ...headers, 'Content-Type': json ? 'application/json' : 'application/x-protobuf' },
+                body: json ? encodeOtlpJson(batch) : encodeOtlpProtobuf(batch),
+                signal: AbortSignal.timeout(timeout * 1000),
+            });
+            await response.body?.cancel();
+
+            if (response.ok) {
+                return 'success';
+            }
+            if (RETRYABLE_STATUS_CODES.includes(response.status)) {
+                logger.warning('OTLP export failed, retrying with the next push', {
+                    endpoint,
+                    status_code: response.status,
+                });
+                return 'retry';
+            }
+            logger.error('OTLP export rejected, dropping the batch', { endpoint, status_code: response.status });
+            return 'rejected';
+        } catch (error) {
+            logger.warning('OTLP export failed, retrying with the next push', { endpoint }, error);
+            return 'retry';
+        }
+    }
+
+    start(interval: number): void {
+        this.stop();
+        this.pushInterval = setInterval(() => void this.push(), interval * 1000);
+    }
+
+    stop(): void {
+        if (this.pushInterval) {
+            clearInterval(this.pushInterval);
+            this.pushInterval = undefined;
+        }
+    }
+
+    /**
+     * Stop pushing and deliver the final state, waiting for a push still in flight first
+     */
+    async shutdown(): Promise<void> {
+        this.stop();
+        await this.pendingPush;
+        await this.push();
+    }
+}
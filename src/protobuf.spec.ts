@@ -0,0 +1,30 @@
+import { describe, it, expect } from 'vitest';
+import { ProtobufWriter } from './protobuf.ts';
+
+const hex = (bytes: Uint8Array): string => Buffer.from(bytes).toString('hex');
+
+describe('ProtobufWriter', () => {
+    it('should encode varints with their field tag', () => {
+        expect(hex(new ProtobufWriter().varint(1, 150).finish())).toBe('089601');
+        expect(hex(new ProtobufWriter().bool(3, true).finish())).toBe('1801');
+        // Negative values take the full ten bytes of their two's complement
+        expect(hex(new ProtobufWriter().varint(1, -1).finish())).toBe('08ffffffffffffffffff01');
+    });
+
+    it('should encode fixed-width numbers little-endian', () => {
+        expect(hex(new ProtobufWriter().fixed64(2, 1n).finish())).toBe('110100000000000000');
+        expect(hex(new ProtobufWriter().double(4, 1).finish())).toBe('21000000000000f03f');
+    });
+
+    it('should length-prefix strings and nested messages', () => {
+        expect(hex(new ProtobufWriter().string(2, 'testing').finish())).toBe('120774657374696e67');
+        expect(hex(new ProtobufWriter().message(3, (nested) => nested.varint(1, 150)).finish())).toBe('1a03089601');
+    });
+
+    it('should pack repeated fixed-width fields', () => {
+        expect(hex(new ProtobufWriter().packedFixed64(6, [1n, 2n]).finish())).toBe(
+            '321001000000000000000200000000000000',
+        );
+        expect(hex(new ProtobufWriter().packedDouble(7, []).finish())).toBe('3a00');
+    });
+});
@@ -0,0 +1,90 @@
+// Protobuf wire types
+const VARINT = 0;
+const FIXED64 = 1;
+const LENGTH_DELIMITED = 2;
+
+/**
+ * Minimal protobuf encoder covering the field types the exporter's push formats use. Fields are
+ * written in call order, nested messages are encoded into their own writer and then length-prefixed.
+ */
+export class ProtobufWriter {
+    private readonly chunks: Uint8Array[] = [];
+
+    private tag(field: number, wireType: number): void {
+        this.rawVarint(BigInt((field << 3) | wireType));
+    }
+
+    private rawVarint(value: bigint): void {
+        const bytes: number[] = [];
+        let remaining = BigInt.asUintN(64, value);
+        while (remaining > 0x7fn) {
+            bytes.push(Number(remaining & 0x7fn) | 0x80);
+            remaining >>= 7n;
+        }
+        bytes.push(Number(remaining));
+        this.chunks.push(Uint8Array.from(bytes));
+    }
+
+    private rawBytes(bytes: Uint8Array): void {
+        this.rawVarint(BigInt(bytes.length));
+        this.chunks.push(bytes);
+    }
+
+    varint(field: number, value: number | bigint): this {
+        this.tag(field, VARINT);
+        this.rawVarint(BigInt(value));
+        return this;
+    }
+
+    bool(field: number, value: boolean): this {
+        return this.varint(field, value ? 1 : 0);
+    }
+
+    fixed64(field: number, value: bigint): this {
+        this.tag(field, FIXED64);
+        const buffer = Buffer.alloc(8);
+        buffer.writeBigUInt64LE(BigInt.asUintN(64, value));
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    double(field: number, value: number): this {
+        this.tag(field, FIXED64);
+        const buffer = Buffer.alloc(8);
+        buffer.writeDoubleLE(value);
+        this.chunks.push(buffer);
+        return this;
+    }
+
+    string(field: number, value: string): this {
+        return this.bytes(field, Buffer.from(value, 'utf8'));
+    }
+
+    bytes(field: number, value: Uint8Array): this {
+        this.tag(field, LENGTH_DELIMITED);
+        this.rawBytes(value);
+        return this;
+    }
+
+    message(field: number, write: (writer: ProtobufWriter) => void): this {
+        const nested = new ProtobufWriter();
+        write(nested);
+        return this.bytes(field, nested.finish());
+    }
+
+    packedFixed64(field: number, values: bigint[]): this {
+        const buffer = Buffer.alloc(values.length * 8);
+        values.forEach((value, index) => buffer.writeBigUInt64LE(BigInt.asUintN(64, value), index * 8));
+        return this.bytes(field, buffer);
+    }
+
+    packedDouble(field: number, values: number[]): this {
+        const buffer = Buffer.alloc(values.length * 8);
+        values.forEach((value, index) => buffer.writeDoubleLE(value, index * 8));
+        return this.bytes(field, buffer);
+    }
+
+    finish(): Uint8Array {
+        return Buffer.concat(this.chunks);
+    }
+}
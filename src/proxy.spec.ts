@@ -0,0 +1,277 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, request, type IncomingMessage, type Server, type ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { Registry } from 'prom-client';
+import { OllamaProxy } from './proxy.ts';
+
+vi.mock('./logger.ts', () => {
+    const logger = {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+        child: vi.fn(),
+    };
+    logger.child.mockReturnValue(logger);
+    return { logger };
+});
+
+type Handler = (req: IncomingMessage, res: ServerResponse) => void;
+
+async function listen(handler: Handler): Promise<Server> {
+    const server = createServer(handler);
+    await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+    return server;
+}
+
+function portOf(server: Server): number {
+    return (server.address() as AddressInfo).port;
+}
+
+async function close(server: Server): Promise<void> {
+    server.closeAllConnections();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+}
+
+async function metricValues(registry: Registry, name: string): Promise<{ labels: object; value: number }[]> {
+    const metric = registry.getSingleMetric(name);
+    return metric ? (await metric.get()).values : [];
+}
+
+describe('OllamaProxy', () => {
+    let upstreamHandler: Handler;
+    let upstream: Server;
+    let front: Server;
+    let registry: Registry;
+    let proxy: OllamaProxy;
+    let frontUrl: string;
+
+    beforeEach(async () => {
+        upstreamHandler = (_req, res): void => {
+            res.writeHead(404);
+            res.end();
+        };
+        // The model list the proxy checks requested model names against
+        upstream = await listen((req, res) => {
+            if (req.url === '/api/tags') {
+                res.writeHead(200, { 'Content-Type': 'application/json' });
+                res.end(
+                    JSON.stringify({
+                        models: [
+                            { name: 'llama3:latest', size: 1 },
+                            { name: 'qwen2:7b', size: 1 },
+                        ],
+                    }),
+                );
+                return;
+            }
+            upstreamHandler(req, res);
+        });
+
+        registry = new Registry();
+        proxy = new OllamaProxy(`127.0.0.1:${portOf(upstream)}`, registry);
+        front = await listen((req, res) => {
+            void proxy.handle(req, res);
+        });
+        frontUrl = `http://127.0.0.1:${portOf(front)}`;
+    });
+
+    afterEach(async () => {
+        await close(front);
+        await close(upstream);
+    });
+
+    it('should only handle Ollama API paths', () => {
+        expect(proxy.handles('/api/chat')).toBe(true);
+        expect(proxy.handles('/v1/chat/completions')).toBe(true);
+        expect(proxy.handles('/metrics')).toBe(false);
+    });
+
+    it('should forward streaming NDJSON and record stats from the final chunk', async () => {
+        let receivedBody = '';
+        upstreamHandler = (req, res): void => {
+            req.on('data', (chunk) => (receivedBody += chunk));
+            req.on('end', () => {
+                res.writeHead(200, { 'Content-Type': 'application/x-ndjson' });
+                res.write(JSON.stringify({ model: 'llama3', message: { content: 'Hel' }, done: false }) + '\n');
+                res.write(JSON.stringify({ model: 'llama3', message: { content: 'lo' }, done: false }) + '\n');
+                res.end(
+                    JSON.stringify({
+                        model: 'llama3',
+                        done: true,
+                        total_duration: 2_500_000_000,
+                        load_duration: 500_000_000,
+                        prompt_eval_count: 12,
+                        eval_count: 34,
+                    }) + '\n',
+                );
+            });
+        };
+
+        const requestBody = JSON.stringify({ model: 'llama3', messages: [{ role: 'user', content: 'Hi' }] });
+        const response = await fetch(`${frontUrl}/api/chat`, { method: 'POST', body: requestBody });
+        const text = await response.text();
+
+        expect(response.status).toBe(200);
+        expect(text.trim().split('\n')).toHaveLength(3);
+        expect(receivedBody).toBe(requestBody);
+
+        const host = `127.0.0.1:${portOf(upstream)}`;
+        const labels = { ollama_host: host, model_name: 'llama3:latest', endpoint: '/api/chat' };
+        expect(await metricValues(registry, 'ollama_proxy_requests_total')).toEqual([
+            { labels: { ...labels, status_code: '200' }, value: 1 },
+        ]);
+        expect(await metricValues(registry, 'ollama_proxy_prompt_tokens_total')).toEqual([{ labels, value: 12 }]);
+        expect(await metricValues(registry, 'ollama_proxy_eval_tokens_total')).toEqual([{ labels, value: 34 }]);
+
+        const durations = await metricValues(registry, 'ollama_proxy_request_duration_seconds');
+        expect(durations).toContainEqual(
+            expect.objectContaining({ labels: expect.objectContaining({ le: 2.5 }), value: 1 }),
+        );
+        expect(durations).toContainEqual(
+            expect.objectContaining({ labels: expect.objectContaining({ le: 1 }), value: 0 }),
+        );
+    });
+
+    it('should record token usage from OpenAI-compatible SSE streams', async () => {
+        upstreamHandler = (req, res): void => {
+            req.resume();
+            req.on('end', () => {
+                res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+                res.write(`data: ${JSON.stringify({ choices: [{ delta: { content: 'Hi' } }] })}\n\n`);
+                res.write(`data: ${JSON.stringify({ usage: { prompt_tokens: 5, completion_tokens: 7 } })}\n\n`);
+                res.end('data: [DONE]\n\n');
+            });
+        };
+
+        const response = await fetch(`${frontUrl}/v1/chat/completions`, {
+            method: 'POST',
+            body: JSON.stringify({ model: 'qwen2:7b', stream: true }),
+        });
+        await response.text();
+
+        const host = `127.0.0.1:${portOf(upstream)}`;
+        const labels = { ollama_host: host, model_name: 'qwen2:7b', endpoint: '/v1/chat/completions' };
+        expect(await metricValues(registry, 'ollama_proxy_prompt_tokens_total')).toEqual([{ labels, value: 5 }]);
+        expect(await metricValues(registry, 'ollama_proxy_eval_tokens_total')).toEqual([{ labels, value: 7 }]);
+    });
+
+    it('should record models Ollama does not list as unknown', async () => {
+        upstreamHandler = (req, res): void => {
+            req.resume();
+            req.on('end', () => {
+                res.writeHead(404, { 'Content-Type': 'application/json' });
+                res.end(JSON.stringify({ error: 'model not found' }));
+            });
+        };
+
+        for (const model of ['made-up-1', 'made-up-2']) {
+            await (await fetch(`${frontUrl}/api/generate`, { method: 'POST', body: JSON.stringify({ model }) })).text();
+        }
+
+        expect(await metricValues(registry, 'ollama_proxy_requests_total')).toEqual([
+            expect.objectContaining({ labels: expect.objectContaining({ model_name: 'unknown' }), value: 2 }),
+        ]);
+    });
+
+    it('should not forward requests whose client aborts while sending the body', async () => {
+        const forwarded = vi.fn();
+        upstreamHandler = forwarded;
+        const handled = new Promise<void>((resolve) => {
+            front.removeAllListeners('request');
+            front.on('request', (req: IncomingMessage, res: ServerResponse) => {
+                void proxy.handle(req, res).then(resolve);
+            });
+        });
+
+        const client = request(`${frontUrl}/api/generate`, { method: 'POST', headers: { 'Content-Length': 1000 } });
+        client.on('error', () => undefined);
+        client.write('{"model":');
+        setTimeout(() => client.destroy(), 50);
+        await handled;
+
+        expect(forwarded).not.toHaveBeenCalled();
+        expect(await metricValues(registry, 'ollama_proxy_requests_total')).toEqual([]);
+    });
+
+    it('should reject request bodies over the size limit without forwarding them', async () => {
+        const forwarded = vi.fn();
+        upstreamHandler = forwarded;
+        proxy = new OllamaProxy(`127.0.0.1:${portOf(upstream)}`, new Registry(), {}, 16);
+
+        const declared = await fetch(`${frontUrl}/api/generate`, {
+            method: 'POST',
+            body: JSON.stringify({ model: 'llama3', prompt: 'Hello there' }),
+        });
+        // Streamed bodies have no length up front and are cut off while reading
+        const streamed = await fetch(`${frontUrl}/api/generate`, {
+            method: 'POST',
+            body: new Blob(['{"model":"llama3",', '"prompt":"Hello there"}']).stream(),
+            duplex: 'half',
+        } as RequestInit);
+
+        expect(declared.status).toBe(413);
+        expect(streamed.status).toBe(413);
+        expect(forwarded).not.toHaveBeenCalled();
+    });
+
+    it('should forward non-inference endpoints without recording traffic', async () => {
+        upstreamHandler = (_req, res): void => {
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify({ version: '0.5.0' }));
+        };
+
+        const response = await fetch(`${frontUrl}/api/version`);
+
+        expect(await response.json()).toEqual({ version: '0.5.0' });
+        expect(await metricValues(registry, 'ollama_proxy_requests_total')).toEqual([]);
+    });
+
+    it('should honour the path prefix, drop hop-by-hop headers and let configured headers win over client headers', async () => {
+        let received: IncomingMessage | undefined;
+        upstreamHandler = (req, res): void => {
+            received = req;
+            res.writeHead(200, { 'Content-Type': 'application/json' });
+            res.end('{}');
+        };
+        proxy.setTarget(`http://127.0.0.1:${portOf(upstream)}/ollama/`, {
+            headers: { Authorization: 'Bearer secret', 'X-Team': 'ml' },
+        });
+
+        // fetch refuses to send connection headers
+        await new Promise<void>((resolve, reject) => {
+            const headers = {
+                'X-Team': 'infra',
+                Authorization: 'Bearer client',
+                Connection: 'keep-alive, X-Hop',
+                'X-Hop': '1',
+                'Proxy-Authorization': 'Basic cHJveHk6c2VjcmV0',
+            };
+            request(`${frontUrl}/api/tags`, { headers }, (res) => res.resume().on('end', resolve))
+                .on('error', reject)
+                .end();
+        });
+
+        expect(received?.url).toBe('/ollama/api/tags');
+        expect(received?.headers).toMatchObject({ authorization: 'Bearer secret', 'x-team': 'ml' });
+        expect(received?.headers).not.toHaveProperty('x-hop');
+        expect(received?.headers).not.toHaveProperty('proxy-authorization');
+        expect(proxy.getTarget()).toBe(`127.0.0.1:${portOf(upstream)}/ollama`);
+    });
+
+    it('should respond with 502 when Ollama is unreachable', async () => {
+        // Stop the upstream the proxy points at and keep a fresh server around for cleanup
+        await close(upstream);
+        upstream = await listen(() => undefined);
+
+        const response = await fetch(`${frontUrl}/api/generate`, {
+            method: 'POST',
+            body: JSON.stringify({ model: 'llama3', prompt: 'Hi' }),
+        });
+
+        expect(response.status).toBe(502);
+        expect(await metricValues(registry, 'ollama_proxy_requests_total')).toEqual([
+            expect.objectContaining({ labels: expect.objectContaining({ status_code: '502' }) }),
+        ]);
+    });
+});
@@ -0,0 +1,358 @@
+import { request as httpRequest, type IncomingHttpHeaders, type IncomingMessage, type ServerResponse } from 'node:http';
+import { request as httpsRequest } from 'node:https';
+import { StringDecoder } from 'node:string_decoder';
+import type { Registry } from 'prom-client';
+import { logger } from './logger.ts';
+import { parseOllamaHost } from './host.ts';
+import { FetchHttpClient, type HttpClientOptions } from './http-client.ts';
+import { createProxyMetrics, type ProxyMetrics } from './metrics.ts';
+import { validateResponse } from './ollama-api.ts';
+
+// Endpoints whose traffic is recorded; everything else under /api and /v1 is forwarded untouched
+const INFERENCE_ENDPOINTS = new Set([
+    '/api/generate',
+    '/api/chat',
+    '/api/embed',
+    '/api/embeddings',
+    '/v1/chat/completions',
+    '/v1/completions',
+    '/v1/embeddings',
+]);
+
+interface InferenceStats {
+    promptTokens?: number;
+    evalTokens?: number;
+    totalDuration?: number;
+    loadDuration?: number;
+}
+
+const NANOSECONDS_PER_SECOND = 1e9;
+// Request bodies are buffered to read the model name, base64 images make up most of the larger ones
+const MAX_BODY_SIZE = 64 * 1024 * 1024;
+// Headers that only apply to a single connection and are never forwarded, RFC 9110 section 7.6.1
+const HOP_BY_HOP_HEADERS = [
+    'connection',
+    'keep-alive',
+    'proxy-authenticate',
+    'proxy-authorization',
+    'proxy-connection',
+    'te',
+    'trailer',
+    'transfer-encoding',
+    'upgrade',
+];
+// Minimum time between /api/tags requests made to look up model names the proxy has not seen yet
+const MODEL_LIST_REFRESH_INTERVAL = 30_000;
+
+/**
+ * Raised when a request body exceeds the size the proxy buffers
+ */
+class PayloadTooLargeError extends Error {
+    constructor(limit: number) {
+        super(`Request body exceeds ${limit} bytes`);
+        this.name = 'PayloadTooLargeError';
+    }
+}
+
+/**
+ * Drop the hop-by-hop headers, including those the Connection header names
+ */
+function endToEndHeaders(headers: IncomingHttpHeaders): IncomingHttpHeaders {
+    const connection = String(headers.connection ?? '')
+        .split(',')
+        .map((name) => name.trim().toLowerCase());
+    const dropped = new Set([...HOP_BY_HOP_HEADERS, ...connection]);
+    return Object.fromEntries(Object.entries(headers).filter(([name]) => !dropped.has(name.toLowerCase())));
+}
+
+/**
+ * Incrementally parses NDJSON, SSE or plain JSON response bodies and keeps the
+ * usage statistics of the final chunk
+ */
+class ResponseStatsParser {
+    private readonly decoder = new StringDecoder('utf8');
+    private buffer = '';
+    readonly stats: InferenceStats = {};
+
+    push(chunk: Buffer): void {
+        this.buffer += this.decoder.write(chunk);
+
+        let newline = this.buffer.indexOf('\n');
+        while (newline >= 0) {
+            this.parseLine(this.buffer.slice(0, newline));
+            this.buffer = this.buffer.slice(newline + 1);
+            newline = this.buffer.indexOf('\n');
+        }
+    }
+
+    end(): void {
+        this.buffer += this.decoder.end();
+        this.parseLine(this.buffer);
+        this.buffer = '';
+    }
+
+    private parseLine(line: string): void {
+        let text = line.trim();
+        if (text.startsWith('data:')) {
+            text = text.slice('data:'.length).trim();
+        }
+        if (!text.startsWith('{')) {
+            return;
+        }
+
+        let data: Record<string, unknown>;
+        try {
+            data = JSON.parse(text);
+        } catch {
+            return;
+        }
+
+        // Native Ollama endpoints report stats on the final `done` chunk or the non-streaming body
+        if (typeof data.total_duration === 'number') {
+            this.stats.totalDuration = data.total_duration / NANOSECONDS_PER_SECOND;
+            if (typeof data.load_duration === 'number') {
+                this.stats.loadDuration = data.load_duration / NANOSECONDS_PER_SECOND;
+            }
+            if (typeof data.prompt_eval_count === 'number') {
+                this.stats.promptTokens = data.prompt_eval_count;
+            }
+            if (typeof data.eval_count === 'number') {
+                this.stats.evalTokens = data.eval_count;
+            }
+        }
+
+        // OpenAI-compatible endpoints report token usage instead
+        const usage = data.usage as Record<string, unknown> | undefined | null;
+        if (usage && typeof usage === 'object') {
+            if (typeof usage.prompt_tokens === 'number') {
+                this.stats.promptTokens = usage.prompt_tokens;
+            }
+            if (typeof usage.completion_tokens === 'number') {
+                this.stats.evalTokens = usage.completion_tokens;
+            }
+        }
+    }
+}
+
+/**
+ * Transparent reverse proxy in front of an Ollama server that records inference traffic
+ */
+export class OllamaProxy {
+    private host = '';
+    private upstream = new URL('http://localhost');
+    private options: HttpClientOptions = {};
+    private readonly metrics: ProxyMetrics;
+    private readonly maxBodySize: number;
+    private readonly client = new FetchHttpClient();
+    // Model names of the latest /api/tags result, the only ones recorded as labels
+    private models = new Set<string>();
+    private modelsFetchedAt = 0;
+    private pendingModelList?: Promise<void>;
+
+    constructor(
+        targetHost: string,
+        registry: Registry,
+        options: HttpClientOptions = {},
+        maxBodySize: number = MAX_BODY_SIZE,
+    ) {
+        this.setTarget(targetHost, options);
+        this.metrics = createProxyMetrics(registry);
+        this.maxBodySize = maxBodySize;
+    }
+
+    /**
+     * Point the proxy at another Ollama server, used for requests received from now on.
+     * The configured headers replace those the client sent.
+     */
+    setTarget(targetHost: string, options: HttpClientOptions = {}): void {
+        const endpoint = parseOllamaHost(targetHost);
+        this.host = endpoint.host;
+        this.upstream = new URL(endpoint.baseUrl);
+        this.options = options;
+        this.client.configure(options);
+        this.models = new Set();
+        this.modelsFetchedAt = 0;
+    }
+
+    getTarget(): string {
+        return this.host;
+    }
+
+    handles(pathname: string): boolean {
+        return pathname.startsWith('/api/') || pathname.startsWith('/v1/');
+    }
+
+    async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const startTime = Date.now();
+        const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+        const endpoint = INFERENCE_ENDPOINTS.has(pathname) ? pathname : undefined;
+        let body: Buffer;
+        try {
+            body = await this.readBody(req);
+        } catch (error) {
+            if (error instanceof PayloadTooLargeError) {
+                logger.warning(`Rejected proxy request: ${error.message}`, { path: pathname });
+                res.writeHead(413, { 'Content-Type': 'text/plain', Connection: 'close' });
+                res.end('Payload Too Large');
+                return;
+            }
+            // The client went away while sending the request, there is nothing to forward
+            logger.debug('Proxy request body could not be read', { path: pathname }, error);
+            res.destroy();
+            return;
+        }
+        // Looked up while the request is forwarded, it is only needed once the response is complete
+        const model = endpoint ? this.resolveModel(this.modelFromBody(body)) : Promise.resolve('unknown');
+        const parser = new ResponseStatsParser();
+
+        const upstream = this.upstream;
+        const request = upstream.protocol === 'https:' ? httpsRequest : httpRequest;
+        const pathPrefix = upstream.pathname === '/' ? '' : upstream.pathname;
+
+        const statusCode = await new Promise<number>((resolve) => {
+            const upstreamReq = request(
+                {
+                    ...this.options.tls,
+                    // URL keeps the brackets around IPv6 literals, the request options must not have them
+                    hostname: upstream.hostname.replace(/^\[(.*)\]$/, '$1'),
+                    port: upstream.port || undefined,
+                    method: req.method,
+                    path: `${pathPrefix}${req.url}`,
+                    headers: this.forwardHeaders(req.headers, body, upstream.host),
+                },
+                (upstreamRes) => {
+                    const status = upstreamRes.statusCode || 502;
+                    if (endpoint) {
+                        upstreamRes.on('data', (chunk: Buffer) => parser.push(chunk));
+                    }
+                    // Registered before piping so stats are recorded before the client sees the end
+                    upstreamRes.on('end', () => resolve(status));
+                    upstreamRes.on('close', () => resolve(status));
+
+                    res.writeHead(status, endToEndHeaders(upstreamRes.headers));
+                    upstreamRes.pipe(res);
+                },
+            );
+
+            upstreamReq.on('error', (error) => {
+                logger.error('Proxy request failed', { target: this.host, path: pathname }, error);
+                if (!res.headersSent) {
+                    res.writeHead(502, { 'Content-Type': 'text/plain' });
+                    res.end('Bad Gateway');
+                } else {
+                    res.destroy();
+                }
+                resolve(502);
+            });
+
+            // Stop generating on the Ollama side when the client goes away mid-stream
+            res.on('close', () => upstreamReq.destroy());
+
+            upstreamReq.end(body);
+        });
+
+        if (endpoint) {
+            parser.end();
+            const elapsedSeconds = (Date.now() - startTime) / 1000;
+            this.record(endpoint, await model, statusCode, parser.stats, elapsedSeconds);
+        }
+    }
+
+    private record(
+        endpoint: string,
+        model: string,
+        statusCode: number,
+        stats: InferenceStats,
+        elapsedSeconds: number,
+    ): void {
+        const labels = { ollama_host: this.host, model_name: model, endpoint };
+
+        this.metrics.OLLAMA_PROXY_REQUESTS_TOTAL.labels({ ...labels, status_code: String(statusCode) }).inc();
+
+        if (stats.promptTokens !== undefined) {
+            this.metrics.OLLAMA_PROXY_PROMPT_TOKENS_TOTAL.labels(labels).inc(stats.promptTokens);
+        }
+        if (stats.evalTokens !== undefined) {
+            this.metrics.OLLAMA_PROXY_EVAL_TOKENS_TOTAL.labels(labels).inc(stats.evalTokens);
+        }
+        // OpenAI-compatible responses carry no timings, so fall back to the observed wall-clock time
+        this.metrics.OLLAMA_PROXY_REQUEST_DURATION.labels(labels).observe(stats.totalDuration ?? elapsedSeconds);
+        if (stats.loadDuration !== undefined) {
+            this.metrics.OLLAMA_PROXY_LOAD_DURATION.labels(labels).observe(stats.loadDuration);
+        }
+    }
+
+    private forwardHeaders(headers: IncomingHttpHeaders, body: Buffer, host: string): IncomingHttpHeaders {
+        const configured = Object.fromEntries(
+            Object.entries(this.options.headers || {}).map(([name, value]) => [name.toLowerCase(), value]),
+        );
+        // The body has been buffered, so forward it with an explicit length
+        const forwarded: IncomingHttpHeaders = { ...endToEndHeaders(headers), ...configured, host };
+        if (body.length > 0) {
+            forwarded['content-length'] = String(body.length);
+        }
+        return forwarded;
+    }
+
+    private modelFromBody(body: Buffer): string {
+        try {
+            const data = JSON.parse(body.toString('utf8'));
+            return typeof data?.model === 'string' && data.model ? data.model : 'unknown';
+        } catch {
+            return 'unknown';
+        }
+    }
+
+    /**
+     * Map a model name sent by a client to the name Ollama lists it under, or `unknown` for models
+     * Ollama does not have, so clients cannot create arbitrary label values
+     */
+    private async resolveModel(name: string): Promise<string> {
+        if (name === 'unknown') {
+            return name;
+        }
+        // Ollama resolves names without a tag to the latest tag
+        const candidates = name.includes(':') ? [name] : [name, `${name}:latest`];
+        const find = (): string | undefined => candidates.find((candidate) => this.models.has(candidate));
+
+        if (!find() && Date.now() - this.modelsFetchedAt >= MODEL_LIST_REFRESH_INTERVAL) {
+            this.pendingModelList ??= this.refreshModels().finally(() => {
+                this.pendingModelList = undefined;
+            });
+            await this.pendingModelList;
+        }
+        return find() ?? 'unknown';
+    }
+
+    private async refreshModels(): Promise<void> {
+        this.modelsFetchedAt = Date.now();
+        try {
+            const response = await this.client.request<unknown>(`${this.upstream.href.replace(/\/$/, '')}/api/tags`, {
+                timeout: 10_000,
+            });
+            const { data } = validateResponse('tags', response.ok ? await response.json() : undefined);
+            if (data) {
+                this.models = new Set(data.models.map((model) => model.name));
+            }
+        } catch (error) {
+            logger.debug('Could not list models for the proxy metrics', { target: this.host }, error);
+        }
+    }
+
+    private async readBody(req: IncomingMessage): Promise<Buffer> {
+        if (Number(req.headers['content-length']) > this.maxBodySize) {
+            throw new PayloadTooLargeError(this.maxBodySize);
+        }
+
+        const chunks: Buffer[] = [];
+        let size = 0;
+        for await (const chunk of req) {
+            size += (chunk as Buffer).length;
+            if (size > this.maxBodySize) {
+                throw new PayloadTooLargeError(this.maxBodySize);
+            }
+            chunks.push(chunk as Buffer);
+        }
+        return Buffer.concat(chunks);
+    }
+}
@@ -0,0 +1,145 @@
+import { z } from 'zod';
+import type { Collector, CollectorContext } from './collector.ts';
+import { ModelResidency } from './residency.ts';
+
+const psStateSchema = z.object({
+    // State saved before version 1 of the state file only holds the residency
+    initialized: z.boolean().default(false),
+    running: z.array(z.string()).default([]),
+    residency: z.unknown(),
+});
+
+/**
+ * Exports the models currently loaded into memory from /api/ps
+ */
+export class PsCollector implements Collector {
+    private readonly context: CollectorContext;
+    private lastRunningModels = new Set<string>();
+    // Models already running on the first successful scrape were not loaded just now
+    private initialized = false;
+    private readonly residency: ModelResidency;
+
+    constructor(context: CollectorContext) {
+        this.context = context;
+        this.residency = new ModelResidency(context.host, context.metrics);
+    }
+
+    async collect(): Promise<boolean> {
+        const { host, metrics } = this.context;
+        const endTimer = this.context.startOperationTimer('list_running');
+        const data = await this.context.request('ps');
+        endTimer();
+
+        if (!data) {
+            return false;
+        }
+
+        try {
+            // Clear old running model metrics
+            for (const oldModel of this.lastRunningModels) {
+                this.removeRunningModelMetrics(oldModel);
+            }
+
+            const models = data.models || [];
+            const currentRunning = new Set<string>();
+
+            for (const model of models) {
+                const name = model.name || 'unknown';
+                const size = model.size || 0;
+                const sizeVram = model.size_vram || 0;
+
+                currentRunning.add(name);
+                metrics.OLLAMA_RUNNING_MODELS.labels(host, name).set(1);
+
+                if (sizeVram > 0) {
+                    metrics.OLLAMA_MODEL_MEMORY_BYTES.labels(host, name).set(sizeVram);
+                }
+
+                if (size > 0) {
+                    metrics.OLLAMA_RUNNING_MODEL_SIZE_BYTES.labels(host, name).set(size);
+                    metrics.OLLAMA_RUNNING_MODEL_VRAM_RATIO.labels(host, name).set(Math.min(sizeVram / size, 1));
+                }
+
+                if (model.expires_at) {
+                    const expiresAt = new Date(model.expires_at).getTime();
+                    if (Number.isNaN(expiresAt)) {
+                        this.context.logger.debug(`Could not parse timestamp ${model.expires_at}`);
+                    } else {
+                        metrics.OLLAMA_RUNNING_MODEL_EXPIRES_SECONDS.labels(host, name).set(
+                            Math.max((expiresAt - Date.now()) / 1000, 0),
+                        );
+                    }
+                }
+
+                if (model.context_length) {
+                    metrics.OLLAMA_RUNNING_MODEL_CONTEXT_LENGTH.labels(host, name).set(model.context_length);
+                }
+            }
+
+            if (this.initialized) {
+                for (const model of models) {
+                    if (!this.lastRunningModels.has(model.name)) {
+                        this.context.publish({ type: 'loaded', model: model.name, digest: model.digest });
+                    }
+                }
+                for (const name of this.lastRunningModels) {
+                    if (!currentRunning.has(name)) {
+                        this.context.publish({ type: 'unloaded', model: name });
+                    }
+                }
+            }
+
+            this.residency.update(currentRunning);
+            this.lastRunningModels = currentRunning;
+            this.initialized = true;
+            return true;
+        } catch (error) {
+            this.context.logger.error('Error processing running models', error);
+            return false;
+        }
+    }
+
+    snapshot(): unknown {
+        return {
+            initialized: this.initialized,
+            running: [...this.lastRunningModels],
+            residency: this.residency.snapshot(),
+        };
+    }
+
+    /**
+     * Restore the models running on the last scrape as the baseline for load and unload events
+     */
+    restore(state: unknown): boolean {
+        const result = psStateSchema.safeParse(state);
+        if (!result.success || !this.residency.restore(result.data.residency)) {
+            return false;
+        }
+
+        this.lastRunningModels = new Set(result.data.running);
+        this.initialized = result.data.initialized;
+        return true;
+    }
+
+    clear(): void {
+        for (const name of this.lastRunningModels) {
+            this.removeRunningModelMetrics(name);
+        }
+        this.residency.clear();
+        this.context.metrics.OLLAMA_EXPORTER_SCRAPE_DURATION.remove({
+            ollama_host: this.context.host,
+            operation: 'list_running',
+        });
+    }
+
+    private removeRunningModelMetrics(name: string): void {
+        const { metrics } = this.context;
+        const labels = { ollama_host: this.context.host, model_name: name };
+        metrics.OLLAMA_RUNNING_MODELS.remove(labels);
+        metrics.OLLAMA_MODEL_MEMORY_BYTES.remove(labels);
+        metrics.OLLAMA_RUNNING_MODEL_SIZE_BYTES.remove(labels);
+        metrics.OLLAMA_RUNNING_MODEL_VRAM_RATIO.remove(labels);
+        metrics.OLLAMA_RUNNING_MODEL_EXPIRES_SECONDS.remove(labels);
+        metrics.OLLAMA_RUNNING_MODEL_CONTEXT_LENGTH.remove(labels);
+    }
+}
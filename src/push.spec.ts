@@ -0,0 +1,172 @@
+import { createServer, type IncomingMessage, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Counter, Gauge, type Registry } from 'prom-client';
+import { createRegistry } from './metrics.ts';
+import { MetricsPusher, type PushOptions } from './push.ts';
+
+vi.mock('./index.ts', () => ({
+    VERSION: '1.0.0',
+}));
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+// Leave remote-write bodies uncompressed so the protobuf can be inspected, compression is covered by its own spec
+vi.mock('./snappy.ts', () => ({
+    snappyCompress: (input: Uint8Array): Uint8Array => input,
+}));
+
+interface ReceivedRequest {
+    method?: string;
+    url?: string;
+    headers: IncomingMessage['headers'];
+    body: Buffer;
+}
+
+/**
+ * Local Pushgateway and remote-write receiver answering each request with the next queued status
+ */
+class StubReceiver {
+    readonly requests: ReceivedRequest[] = [];
+    readonly statuses: number[] = [];
+    private readonly server: Server;
+
+    constructor() {
+        this.server = createServer((req, res) => {
+            const chunks: Buffer[] = [];
+            req.on('data', (chunk: Buffer) => chunks.push(chunk));
+            req.on('end', () => {
+                this.requests.push({
+                    method: req.method,
+                    url: req.url,
+                    headers: req.headers,
+                    body: Buffer.concat(chunks),
+                });
+                res.writeHead(this.statuses.shift() ?? 200).end();
+            });
+        });
+    }
+
+    async listen(): Promise<string> {
+        await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+        return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    }
+
+    close(): Promise<void> {
+        return new Promise((resolve) => this.server.close(() => resolve()));
+    }
+}
+
+async function pushes(registry: Registry, mode: string, status: string): Promise<number | undefined> {
+    const metric = await registry.getSingleMetric('ollama_exporter_pushes_total')?.get();
+    return metric?.values.find((sample) => sample.labels.mode === mode && sample.labels.status === status)?.value;
+}
+
+describe('MetricsPusher', () => {
+    let registry: Registry;
+    let modelSize: Gauge;
+    let receiver: StubReceiver;
+    let options: PushOptions;
+
+    beforeEach(async () => {
+        vi.clearAllMocks();
+        registry = createRegistry();
+        modelSize = new Gauge({
+            name: 'ollama_model_size_bytes',
+            help: 'Size of the model in bytes',
+            labelNames: ['ollama_host', 'model_name'],
+            registers: [registry],
+        });
+        modelSize.set({ ollama_host: 'gpu-1:11434', model_name: 'llama3:8b' }, 4661224676);
+        modelSize.set({ ollama_host: 'gpu-2:11434', model_name: 'qwen3:4b' }, 2497293931);
+        new Counter({ name: 'ollama_exporter_reloads_total', help: 'Reloads', registers: [registry] }).inc();
+
+        receiver = new StubReceiver();
+        options = {
+            mode: 'pushgateway',
+            url: `${await receiver.listen()}/`,
+            job: 'ollama',
+            username: 'admin',
+            password: 'secret',
+            timeout: 5,
+        };
+    });
+
+    afterEach(async () => {
+        await receiver.close();
+    });
+
+    it('should push one Pushgateway group per Ollama host', async () => {
+        await new MetricsPusher(registry, options).push();
+
+        const byUrl = new Map(receiver.requests.map((request) => [request.url, request]));
+        expect([...byUrl.keys()].sort()).toEqual([
+            '/metrics/job/ollama',
+            '/metrics/job/ollama/ollama_host/gpu-1%3A11434',
+            '/metrics/job/ollama/ollama_host/gpu-2%3A11434',
+        ]);
+
+        const gpu1 = byUrl.get('/metrics/job/ollama/ollama_host/gpu-1%3A11434');
+        expect(gpu1?.method).toBe('PUT');
+        expect(gpu1?.headers.authorization).toBe(`Basic ${Buffer.from('admin:secret').toString('base64')}`);
+        expect(gpu1?.body.toString()).toContain('ollama_model_size_bytes{model_name="llama3:8b"} 4661224676\n');
+        expect(gpu1?.body.toString()).not.toContain('qwen3');
+        expect(byUrl.get('/metrics/job/ollama')?.body.toString()).toContain('ollama_exporter_reloads_total 1\n');
+        expect(await pushes(registry, 'pushgateway', 'success')).toBe(1);
+    });
+
+    it('should delete the group of a host that is no longer scraped', async () => {
+        const pusher = new MetricsPusher(registry, options);
+        await pusher.push();
+
+        modelSize.remove({ ollama_host: 'gpu-2:11434', model_name: 'qwen3:4b' });
+        receiver.requests.length = 0;
+        await pusher.push();
+
+        expect(receiver.requests).toContainEqual(
+            expect.objectContaining({ method: 'DELETE', url: '/metrics/job/ollama/ollama_host/gpu-2%3A11434' }),
+        );
+    });
+
+    it('should send a remote-write request', async () => {
+        await new MetricsPusher(registry, {
+            ...options,
+            mode: 'remote-write',
+            url: `${options.url}api/v1/write`,
+            username: undefined,
+            bearerToken: 'token',
+        }).push();
+
+        expect(receiver.requests).toHaveLength(1);
+        const [request] = receiver.requests;
+        expect(request).toMatchObject({ method: 'POST', url: '/api/v1/write' });
+        expect(request.headers).toMatchObject({
+            authorization: 'Bearer token',
+            'content-type': 'application/x-protobuf',
+            'content-encoding': 'snappy',
+            'x-prometheus-remote-write-version': '0.1.0',
+        });
+        // WriteRequest.timeseries is field 1, its first label is __name__
+        expect(request.body[0]).toBe(0x0a);
+        for (const text of ['__name__', 'ollama_model_size_bytes', 'gpu-1:11434', 'job', 'ollama']) {
+            expect(request.body.includes(text)).toBe(true);
+        }
+        expect(await pushes(registry, 'remote-write', 'success')).toBe(1);
+    });
+
+    it('should count failed pushes', async () => {
+        receiver.statuses.push(500);
+
+        await new MetricsPusher(registry, { ...options, mode: 'remote-write' }).push();
+
+        expect(await pushes(registry, 'remote-write', 'failure')).toBe(1);
+        expect(await pushes(registry, 'remote-write', 'success')).toBeUndefined();
+    });
+});
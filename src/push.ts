@@ -0,0 +1,204 @@
+import type { MetricObjectWithValues, MetricValue, Registry } from 'prom-client';
+import type { ExporterConfig } from './config.ts';
+import { formatLabels, formatValue } from './exposition.ts';
+import { authorizationHeader } from './http-client.ts';
+import { logger } from './logger.ts';
+import { createPushMetrics, type PushMetrics } from './metrics.ts';
+import { collectMetrics, type ModelFilter } from './model-filter.ts';
+import { ProtobufWriter } from './protobuf.ts';
+import { snappyCompress } from './snappy.ts';
+import { VERSION } from './index.ts';
+
+export type PushOptions = ExporterConfig['push'];
+
+// MetricMetadata.MetricType of the remote-write protocol
+const METADATA_TYPES: Record<string, number> = { counter: 1, gauge: 2, histogram: 3, summary: 5 };
+
+type Sample = MetricValue<string> & { metricName?: string };
+
+/**
+ * Path segment of a Pushgateway grouping key label. Values that cannot be part of a
+ * URL path, like empty ones or those with a slash, use the base64 form.
+ */
+function groupingKeySegment(name: string, value: string): string {
+    if (value === '' || value.includes('/')) {
+        return `${name}@base64/${Buffer.from(value).toString('base64url') || '='}`;
+    }
+    return `${name}/${encodeURIComponent(value)}`;
+}
+
+/**
+ * Render metrics in the classic text format, one group per Ollama host. The host moves from the
+ * `ollama_host` label to the grouping key, metrics without the label form the job-only group.
+ */
+function renderGroups(metrics: MetricObjectWithValues<MetricValue<string>>[]): Map<string, string[]> {
+    const groups = new Map<string, string[]>();
+    for (const metric of metrics) {
+        const samplesByHost = new Map<string, string[]>();
+        for (const sample of metric.values as Sample[]) {
+            const { ollama_host: host, ...labels } = sample.labels;
+            const key = host === undefined ? '' : String(host);
+            samplesByHost.set(key, [
+                ...(samplesByHost.get(key) ?? []),
+                `${sample.metricName ?? metric.name}${formatLabels(labels)} ${formatValue(sample.value)}`,
+            ]);
+        }
+        for (const [host, samples] of samplesByHost) {
+            groups.set(host, [
+                ...(groups.get(host) ?? []),
+                `# HELP ${metric.name} ${metric.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`,
+                `# TYPE ${metric.name} ${metric.type}`,
+                ...samples,
+            ]);
+        }
+    }
+    return groups;
+}
+
+/**
+ * Encode the metrics as a remote-write WriteRequest, field numbers as in prometheus/prompb/remote.proto
+ */
+function encodeWriteRequest(metrics: MetricObjectWithValues<MetricValue<string>>[], job: string): Uint8Array {
+    const timestamp = Date.now();
+    const request = new ProtobufWriter();
+    for (const metric of metrics) {
+        for (const sample of metric.values as Sample[]) {
+            const labels: Record<string, string> = { __name__: sample.metricName ?? metric.name, job };
+            for (const [name, value] of Object.entries(sample.labels)) {
+                // Empty label values are the same as an absent label in Prometheus
+                if (value !== undefined && value !== '') {
+                    labels[name] = String(value);
+                }
+            }
+            request.message(1, (series) => {
+                for (const name of Object.keys(labels).sort()) {
+                    series.message(1, (label) => label.string(1, name).string(2, labels[name]));
+                }
+                series.message(2, (point) => point.double(1, sample.value).varint(2, timestamp));
+            });
+        }
+        request.message(3, (metadata) =>
+            metadata
+                // Typed as an enum by prom-client, but the type name at runtime
+                .varint(1, METADATA_TYPES[String(metric.type)] ?? 0)
+                .string(2, metric.name)
+                .string(4, metric.help),
+        );
+    }
+    return request.finish();
+}
+
+/**
+ * Pushes the registry to a Pushgateway or a Prometheus remote-write endpoint, for hosts that
+ * Prometheus cannot scrape. Pushes are triggered by the caller after each metrics update.
+ */
+export class MetricsPusher {
+    private readonly registry: Registry;
+    private readonly modelFilter?: ModelFilter;
+    private options: PushOptions;
+    private readonly fetch: typeof fetch;
+    private readonly metrics: PushMetrics;
+    // Pushgateway group URLs pushed before, deleted once their host is gone
+    private groups = new Set<string>();
+    private pendingPush?: Promise<void>;
+
+    constructor(registry: Registry, options: PushOptions, modelFilter?: ModelFilter, fetchImpl: typeof fetch = fetch) {
+        this.registry = registry;
+        this.modelFilter = modelFilter;
+        this.options = options;
+        this.fetch = fetchImpl;
+        this.metrics = createPushMetrics(registry);
+    }
+
+    /**
+     * Apply new options from the next push on
+     */
+    reconfigure(options: PushOptions): void {
+        this.options = options;
+    }
+
+    /**
+     * Push the current metrics. Calls made while a push is in flight share that push.
+     */
+    push(): Promise<void> {
+        this.pendingPush ??= this.pushOnce().finally(() => {
+            this.pendingPush = undefined;
+        });
+        return this.pendingPush;
+    }
+
+    private async pushOnce(): Promise<void> {
+        const { mode, url } = this.options;
+        if (mode === 'none') {
+            return;
+        }
+        try {
+            if (mode === 'pushgateway') {
+                await this.pushToGateway();
+            } else {
+                await this.remoteWrite();
+            }
+            this.metrics.OLLAMA_EXPORTER_PUSHES_TOTAL.inc({ mode, status: 'success' });
+            this.metrics.OLLAMA_EXPORTER_LAST_PUSH_SUCCESS_TIMESTAMP.set({ mode }, Date.now() / 1000);
+        } catch (error) {
+            this.metrics.OLLAMA_EXPORTER_PUSHES_TOTAL.inc({ mode, status: 'failure' });
+            logger.warning('Metrics push failed', { mode, url }, error);
+        }
+    }
+
+    private async pushToGateway(): Promise<void> {
+        const base = `${this.options.url.replace(/\/+$/, '')}/metrics/${groupingKeySegment('job', this.options.job)}`;
+        const groups = renderGroups(await collectMetrics(this.registry, this.modelFilter));
+        const pushed = new Set<string>();
+
+        // PUT replaces the whole group, so series removed from the registry disappear from the Pushgateway too
+        await Promise.all(
+            [...groups].map(async ([host, lines]) => {
+                const url = host ? `${base}/${groupingKeySegment('ollama_host', host)}` : base;
+                await this.send(url, 'PUT', `${lines.join('\n')}\n`, {
+                    'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+                });
+                pushed.add(url);
+            }),
+        );
+
+        for (const url of this.groups) {
+            if (!pushed.has(url)) {
+                await this.send(url, 'DELETE');
+            }
+        }
+        this.groups = pushed;
+    }
+
+    private async remoteWrite(): Promise<void> {
+        const body = encodeWriteRequest(await collectMetrics(this.registry, this.modelFilter), this.options.job);
+        await this.send(this.options.url, 'POST', snappyCompress(body), {
+            'Content-Type': 'application/x-protobuf',
+            'Content-Encoding': 'snappy',
+            'X-Prometheus-Remote-Write-Version': '0.1.0',
+        });
+    }
+
+    private async send(
+        url: string,
+        method: string,
+        body?: string | Uint8Array,
+        headers: Record<string, string> = {},
+    ): Promise<void> {
+        const authorization = authorizationHeader(this.options);
+        const response = await this.fetch(url, {
+            method,
+            headers: {
+                ...headers,
+                'User-Agent': `ollama-exporter/${VERSION}`,
+                ...(authorization && { Authorization: authorization }),
+            },
+            body,
+            signal: AbortSignal.timeout(this.options.timeout * 1000),
+        });
+        const text = await response.text();
+        if (!response.ok) {
+            throw new Error(`${method} ${url} returned ${response.status}${text ? `: ${text.trim()}` : ''}`);
+        }
+    }
+}
@@ -0,0 +1,139 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { Registry } from 'prom-client';
+import { createMetrics } from './metrics.ts';
+import { ModelResidency } from './residency.ts';
+
+const HOST = 'localhost:11434';
+const START = Date.parse('2026-01-12T09:00:00.000Z');
+
+async function metricValues(registry: Registry, name: string): Promise<{ labels: object; value: number }[]> {
+    const metric = registry.getSingleMetric(name);
+    return metric ? (await metric.get()).values : [];
+}
+
+describe('ModelResidency', () => {
+    let registry: Registry;
+    let residency: ModelResidency;
+
+    beforeEach(() => {
+        registry = new Registry();
+        residency = new ModelResidency(HOST, createMetrics(registry));
+    });
+
+    it('should count loaded time and observe the residency once a model is unloaded', async () => {
+        residency.update(new Set(), START);
+        residency.update(new Set(['llama3:8b']), START + 30_000);
+        residency.update(new Set(['llama3:8b']), START + 90_000);
+
+        expect(await metricValues(registry, 'ollama_model_loaded_seconds_total')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 60 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_load_age_seconds')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 60 },
+        ]);
+
+        residency.update(new Set(), START + 120_000);
+
+        expect(await metricValues(registry, 'ollama_model_load_age_seconds')).toEqual([]);
+        const histogram = await metricValues(registry, 'ollama_model_residency_seconds');
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels: expect.objectContaining({ le: 60 }), value: 1 }),
+        );
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 60 }),
+        );
+    });
+
+    it('should not observe residencies of models already loaded when tracking started', async () => {
+        residency.update(new Set(['llama3:8b']), START);
+        residency.update(new Set(), START + 60_000);
+
+        expect(await metricValues(registry, 'ollama_model_residency_seconds')).toEqual([]);
+    });
+
+    it('should resume residencies from a snapshot after a short restart', async () => {
+        residency.update(new Set(), START);
+        residency.update(new Set(['llama3:8b', 'qwen3:4b']), START + 30_000);
+        residency.update(new Set(['llama3:8b', 'qwen3:4b']), START + 60_000);
+        const snapshot = JSON.parse(JSON.stringify(residency.snapshot()));
+
+        registry = new Registry();
+        residency = new ModelResidency(HOST, createMetrics(registry));
+        expect(residency.restore(snapshot)).toBe(true);
+        residency.update(new Set(['llama3:8b']), START + 120_000);
+
+        expect(await metricValues(registry, 'ollama_model_loaded_seconds_total')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 90 },
+            { labels: { ollama_host: HOST, model_name: 'qwen3:4b' }, value: 30 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_load_age_seconds')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 90 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_residency_seconds')).toContainEqual(
+            expect.objectContaining({ labels: { ollama_host: HOST, model_name: 'qwen3:4b' }, value: 30 }),
+        );
+    });
+
+    it('should start a new residency when the model was last seen before a long gap', async () => {
+        residency.update(new Set(['llama3:8b']), START);
+        const snapshot = residency.snapshot();
+
+        residency = new ModelResidency(HOST, createMetrics((registry = new Registry())));
+        residency.restore(snapshot);
+        residency.update(new Set(['llama3:8b']), START + 60 * 60_000);
+
+        expect(await metricValues(registry, 'ollama_model_loaded_seconds_total')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 0 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_load_age_seconds')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 0 },
+        ]);
+    });
+
+    it('should keep a model loaded across scrapes further apart than the resume window', async () => {
+        residency.update(new Set(), START);
+        for (let scrape = 1; scrape <= 4; scrape++) {
+            residency.update(new Set(['llama3:8b']), START + scrape * 900_000);
+        }
+
+        expect(await metricValues(registry, 'ollama_model_loaded_seconds_total')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 2700 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_load_age_seconds')).toEqual([
+            { labels: { ollama_host: HOST, model_name: 'llama3:8b' }, value: 2700 },
+        ]);
+        expect(await metricValues(registry, 'ollama_model_residency_seconds')).toEqual([]);
+    });
+
+    it('should carry the residency histogram across restarts', async () => {
+        residency.update(new Set(), START);
+        residency.update(new Set(['llama3:8b']), START + 30_000);
+        residency.update(new Set(['llama3:8b']), START + 630_000);
+        residency.update(new Set(), START + 660_000);
+        const snapshot = JSON.parse(JSON.stringify(residency.snapshot()));
+
+        registry = new Registry();
+        residency = new ModelResidency(HOST, createMetrics(registry));
+        expect(residency.restore(snapshot)).toBe(true);
+
+        const histogram = await metricValues(registry, 'ollama_model_residency_seconds');
+        const labels = { ollama_host: HOST, model_name: 'llama3:8b' };
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels: expect.objectContaining({ le: 300 }), value: 0 }),
+        );
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels: expect.objectContaining({ le: 900 }), value: 1 }),
+        );
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels, metricName: 'ollama_model_residency_seconds_sum', value: 600 }),
+        );
+        expect(histogram).toContainEqual(
+            expect.objectContaining({ labels, metricName: 'ollama_model_residency_seconds_count', value: 1 }),
+        );
+    });
+
+    it('should reject invalid snapshots', () => {
+        expect(residency.restore({ residencies: { 'llama3:8b': { loadedAt: 'yesterday' } } })).toBe(false);
+        expect(residency.restore(undefined)).toBe(false);
+    });
+});
@@ -0,0 +1,195 @@
+import type { Histogram } from 'prom-client';
+import { z } from 'zod';
+import type { OllamaMetrics } from './metrics.ts';
+
+// A restored model last seen longer before the restart may have been unloaded and loaded again while the
+// exporter was down, so its residency ends there
+const RESUME_WINDOW = 10 * 60 * 1000;
+
+const residencySnapshotSchema = z.object({
+    residencies: z.record(
+        z.string(),
+        z.object({
+            loadedAt: z.number(),
+            lastSeen: z.number(),
+            loadObserved: z.boolean(),
+        }),
+    ),
+    loadedSeconds: z.record(z.string(), z.number().nonnegative()),
+    // Snapshots taken before the histogram was saved do not have it
+    residencySeconds: z
+        .record(
+            z.string(),
+            z.object({
+                buckets: z.record(z.string(), z.number().int().nonnegative()),
+                sum: z.number().nonnegative(),
+                count: z.number().int().nonnegative(),
+            }),
+        )
+        .default({}),
+});
+
+export type ResidencySnapshot = z.infer<typeof residencySnapshotSchema>;
+
+interface Residency {
+    /** When the model was first seen loaded, in milliseconds since the epoch */
+    loadedAt: number;
+    lastSeen: number;
+    // False for models that were already loaded when tracking started, their residency is only partially known
+    loadObserved: boolean;
+}
+
+interface HistogramValues {
+    labels: Record<string, string | number>;
+    // Observations per upper bound, not cumulative
+    bucketValues: Record<string, number>;
+    sum: number;
+    count: number;
+}
+
+// prom-client can neither read a histogram synchronously nor set one, so its values are accessed in place
+function histogramValues(histogram: Histogram<string>): HistogramValues[] {
+    return Object.values((histogram as unknown as { hashMap: Record<string, HistogramValues> }).hashMap);
+}
+
+/**
+ * Tracks how long the models of one target stay loaded, from the running models seen on each scrape
+ */
+export class ModelResidency {
+    private readonly host: string;
+    private readonly metrics: OllamaMetrics;
+    private readonly residencies = new Map<string, Residency>();
+    // Seconds counted per model, kept so they can be carried across restarts
+    private readonly loadedSeconds = new Map<string, number>();
+    // Models whose residency was restored and not yet checked against the running models
+    private readonly restored = new Set<string>();
+    private initialized = false;
+
+    constructor(host: string, metrics: OllamaMetrics) {
+        this.host = host;
+        this.metrics = metrics;
+    }
+
+    /**
+     * Account for the models running at the given time. Models loaded in both this and the previous
+     * scrape are counted as loaded for the whole time in between, however long the scrape interval is.
+     */
+    update(running: Set<string>, now = Date.now()): void {
+        for (const [model, residency] of this.residencies) {
+            const resumable = !this.restored.has(model) || now - residency.lastSeen <= RESUME_WINDOW;
+            if (running.has(model) && resumable) {
+                this.addLoadedSeconds(model, (now - residency.lastSeen) / 1000);
+                residency.lastSeen = now;
+            } else {
+                this.end(model, residency);
+            }
+        }
+
+        for (const model of running) {
+            let residency = this.residencies.get(model);
+            if (!residency) {
+                residency = { loadedAt: now, lastSeen: now, loadObserved: this.initialized };
+                this.residencies.set(model, residency);
+                this.addLoadedSeconds(model, 0);
+            }
+            this.metrics.OLLAMA_MODEL_LOAD_AGE_SECONDS.labels(this.host, model).set((now - residency.loadedAt) / 1000);
+        }
+        this.restored.clear();
+        this.initialized = true;
+    }
+
+    snapshot(): ResidencySnapshot {
+        const residencySeconds: ResidencySnapshot['residencySeconds'] = {};
+        for (const { labels, bucketValues, sum, count } of histogramValues(
+            this.metrics.OLLAMA_MODEL_RESIDENCY_SECONDS,
+        )) {
+            if (labels.ollama_host === this.host) {
+                residencySeconds[labels.model_name] = { buckets: { ...bucketValues }, sum, count };
+            }
+        }
+        return {
+            residencies: Object.fromEntries(this.residencies),
+            loadedSeconds: Object.fromEntries(this.loadedSeconds),
+            residencySeconds,
+        };
+    }
+
+    /**
+     * Continue from a snapshot taken before a restart. Returns false if the snapshot is invalid.
+     * Residencies are resumed on the next update if their models are still loaded by then and were seen
+     * shortly before the restart.
+     */
+    restore(snapshot: unknown): boolean {
+        const result = residencySnapshotSchema.safeParse(snapshot);
+        if (!result.success) {
+            return false;
+        }
+
+        for (const [model, residency] of Object.entries(result.data.residencies)) {
+            this.residencies.set(model, { ...residency });
+            this.restored.add(model);
+        }
+        for (const [model, seconds] of Object.entries(result.data.loadedSeconds)) {
+            this.addLoadedSeconds(model, seconds);
+        }
+        for (const [model, saved] of Object.entries(result.data.residencySeconds)) {
+            this.restoreResidencySeconds(model, saved);
+        }
+        return true;
+    }
+
+    private restoreResidencySeconds(model: string, saved: ResidencySnapshot['residencySeconds'][string]): void {
+        const histogram = this.metrics.OLLAMA_MODEL_RESIDENCY_SECONDS;
+        const labels = { ollama_host: this.host, model_name: model };
+        const find = (): HistogramValues | undefined =>
+            histogramValues(histogram).find(
+                (values) => values.labels.ollama_host === this.host && values.labels.model_name === model,
+            );
+        let values = find();
+        if (!values) {
+            histogram.zero(labels);
+            values = find();
+        }
+        // Observations saved with other buckets cannot be carried over
+        if (!values || !Object.keys(saved.buckets).every((bound) => bound in values.bucketValues)) {
+            if (values?.count === 0) {
+                histogram.remove(labels);
+            }
+            return;
+        }
+
+        for (const [bound, count] of Object.entries(saved.buckets)) {
+            values.bucketValues[bound] += count;
+        }
+        values.sum += saved.sum;
+        values.count += saved.count;
+    }
+
+    /**
+     * Remove every series exported for the target
+     */
+    clear(): void {
+        for (const model of this.loadedSeconds.keys()) {
+            const labels = { ollama_host: this.host, model_name: model };
+            this.metrics.OLLAMA_MODEL_LOADED_SECONDS_TOTAL.remove(labels);
+            this.metrics.OLLAMA_MODEL_LOAD_AGE_SECONDS.remove(labels);
+            this.metrics.OLLAMA_MODEL_RESIDENCY_SECONDS.remove(labels);
+        }
+    }
+
+    private addLoadedSeconds(model: string, seconds: number): void {
+        this.metrics.OLLAMA_MODEL_LOADED_SECONDS_TOTAL.labels(this.host, model).inc(seconds);
+        this.loadedSeconds.set(model, (this.loadedSeconds.get(model) ?? 0) + seconds);
+    }
+
+    private end(model: string, residency: Residency): void {
+        // The model was unloaded some time after it was last seen, which is the best estimate available
+        if (residency.loadObserved) {
+            this.metrics.OLLAMA_MODEL_RESIDENCY_SECONDS.labels(this.host, model).observe(
+                (residency.lastSeen - residency.loadedAt) / 1000,
+            );
+        }
+        this.metrics.OLLAMA_MODEL_LOAD_AGE_SECONDS.remove({ ollama_host: this.host, model_name: model });
+        this.residencies.delete(model);
+    }
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { snappyCompress } from './snappy.ts';
+
+// Reference decoder for the snappy block format
+function snappyDecompress(input: Uint8Array): Uint8Array {
+    let position = 0;
+    let length = 0;
+    for (let shift = 0; ; shift += 7) {
+        const byte = input[position++];
+        length |= (byte & 0x7f) << shift;
+        if (byte < 0x80) {
+            break;
+        }
+    }
+
+    const output: number[] = [];
+    while (position < input.length) {
+        const tag = input[position++];
+        if ((tag & 3) === 0) {
+            let literalLength = tag >>> 2;
+            if (literalLength >= 60) {
+                const bytes = literalLength - 59;
+                literalLength = 0;
+                for (let index = 0; index < bytes; index++) {
+                    literalLength |= input[position++] << (8 * index);
+                }
+            }
+            output.push(...input.subarray(position, position + literalLength + 1));
+            position += literalLength + 1;
+            continue;
+        }
+
+        let copyLength: number;
+        let offset: number;
+        if ((tag & 3) === 1) {
+            copyLength = ((tag >>> 2) & 7) + 4;
+            offset = ((tag >>> 5) << 8) | input[position++];
+        } else {
+            copyLength = (tag >>> 2) + 1;
+            offset = input[position] | (input[position + 1] << 8);
+            position += 2;
+        }
+        for (let index = 0; index < copyLength; index++) {
+            output.push(output[output.length - offset]);
+        }
+    }
+    expect(output).toHaveLength(length);
+    return Uint8Array.from(output);
+}
+
+describe('snappyCompress', () => {
+    it.each([
+        ['empty', Buffer.alloc(0)],
+        ['short', Buffer.from('abc')],
+        ['repetitive', Buffer.from('ollama_model_size_bytes{model_name="llama3:8b"} 1\n'.repeat(200))],
+        ['long runs', Buffer.alloc(70_000, 7)],
+        ['random', Buffer.from(Array.from({ length: 3000 }, (_, index) => (index * 7919) % 251))],
+    ])('should round-trip %s input', (_kind, input) => {
+        const compressed = snappyCompress(input);
+
+        expect(Buffer.from(snappyDecompress(compressed)).equals(input)).toBe(true);
+    });
+
+    it('should compress repetitive input', () => {
+        const input = Buffer.from('ollama_model_loaded{ollama_host="localhost:11434"} 1\n'.repeat(100));
+
+        expect(snappyCompress(input).length).toBeLessThan(input.length / 10);
+    });
+});
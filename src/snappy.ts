@@ -0,0 +1,98 @@
+// Matches never reach back further than a block, so every copy fits the two-byte offset form
+const BLOCK_SIZE = 1 << 16;
+const HASH_BITS = 14;
+const MIN_MATCH = 4;
+
+function writeVarint(output: number[], value: number): void {
+    while (value >= 0x80) {
+        output.push((value & 0x7f) | 0x80);
+        value >>>= 7;
+    }
+    output.push(value);
+}
+
+function hash(input: Uint8Array, index: number): number {
+    const value = input[index] | (input[index + 1] << 8) | (input[index + 2] << 16) | (input[index + 3] << 24);
+    return Math.imul(value, 0x1e35a7bd) >>> (32 - HASH_BITS);
+}
+
+function writeLiteral(output: number[], input: Uint8Array, start: number, end: number): void {
+    const length = end - start - 1;
+    if (length < 0) {
+        return;
+    }
+    if (length < 60) {
+        output.push(length << 2);
+    } else {
+        // Tags 60 to 63 are followed by the length in one to four little-endian bytes
+        const bytes: number[] = [];
+        for (let remaining = length; remaining > 0; remaining >>>= 8) {
+            bytes.push(remaining & 0xff);
+        }
+        output.push((59 + bytes.length) << 2, ...bytes);
+    }
+    for (let index = start; index < end; index++) {
+        output.push(input[index]);
+    }
+}
+
+function writeCopy(output: number[], offset: number, length: number): void {
+    // A single copy covers at most 64 bytes, splitting keeps the remainder at least MIN_MATCH long
+    while (length >= 68) {
+        output.push((63 << 2) | 2, offset & 0xff, offset >>> 8);
+        length -= 64;
+    }
+    if (length > 64) {
+        output.push((59 << 2) | 2, offset & 0xff, offset >>> 8);
+        length -= 60;
+    }
+    if (length < 12 && offset < 2048) {
+        output.push(((offset >>> 8) << 5) | ((length - 4) << 2) | 1, offset & 0xff);
+    } else {
+        output.push(((length - 1) << 2) | 2, offset & 0xff, offset >>> 8);
+    }
+}
+
+/**
+ * Compress data in the snappy block format (not the framing format), as used by Prometheus
+ * remote-write. Greedy single-pass matching, favouring simplicity over compression ratio.
+ */
+export function snappyCompress(input: Uint8Array): Uint8Array {
+    const output: number[] = [];
+    writeVarint(output, input.length);
+
+    const table = new Int32Array(1 << HASH_BITS);
+    for (let blockStart = 0; blockStart < input.length; blockStart += BLOCK_SIZE) {
+        const blockEnd = Math.min(blockStart + BLOCK_SIZE, input.length);
+        table.fill(-1);
+        let literalStart = blockStart;
+        let index = blockStart;
+
+        while (index + MIN_MATCH <= blockEnd) {
+            const key = hash(input, index);
+            const candidate = table[key];
+            table[key] = index;
+            if (
+                candidate < 0 ||
+                input[candidate] !== input[index] ||
+                input[candidate + 1] !== input[index + 1] ||
+                input[candidate + 2] !== input[index + 2] ||
+                input[candidate + 3] !== input[index + 3]
+            ) {
+                index++;
+                continue;
+            }
+
+            let length = MIN_MATCH;
+            while (index + length < blockEnd && input[candidate + length] === input[index + length]) {
+                length++;
+            }
+            writeLiteral(output, input, literalStart, index);
+            writeCopy(output, index - candidate, length);
+            index += length;
+            literalStart = index;
+        }
+        writeLiteral(output, input, literalStart, blockEnd);
+    }
+    return Uint8Array.from(output);
+}
@@ -0,0 +1,97 @@
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ExporterSnapshot } from './exporter.ts';
+import { logger } from './logger.ts';
+import { STATE_VERSION, StateFile } from './state.ts';
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+const SNAPSHOT: ExporterSnapshot = {
+    targets: { 'localhost:11434': { ps: { initialized: true, running: ['llama3:8b'] } } },
+    counters: {
+        OLLAMA_EXPORTER_SCRAPES_TOTAL: [{ labels: { ollama_host: 'localhost:11434', status: 'success' }, value: 42 }],
+    },
+};
+
+describe('StateFile', () => {
+    let directory: string;
+    let path: string;
+    let exporter: { snapshot: ReturnType<typeof vi.fn>; restore: ReturnType<typeof vi.fn> };
+    let stateFile: StateFile;
+
+    beforeEach(() => {
+        vi.clearAllMocks();
+        directory = mkdtempSync(join(tmpdir(), 'ollama-exporter-state-'));
+        path = join(directory, 'state.json');
+        exporter = { snapshot: vi.fn().mockResolvedValue(SNAPSHOT), restore: vi.fn() };
+        stateFile = new StateFile(path, exporter);
+    });
+
+    afterEach(() => {
+        stateFile.stop();
+        rmSync(directory, { recursive: true, force: true });
+    });
+
+    it('should save a versioned snapshot and restore it', async () => {
+        await stateFile.save();
+
+        const saved = JSON.parse(readFileSync(path, 'utf8'));
+        expect(saved).toMatchObject({ version: STATE_VERSION, ...SNAPSHOT });
+        expect(saved.savedAt).toEqual(expect.any(String));
+
+        expect(stateFile.restore()).toBe(true);
+        expect(exporter.restore).toHaveBeenCalledWith(SNAPSHOT);
+    });
+
+    it('should start fresh without a state file', () => {
+        expect(stateFile.restore()).toBe(false);
+        expect(exporter.restore).not.toHaveBeenCalled();
+        expect(logger.warning).not.toHaveBeenCalled();
+    });
+
+    it.each([
+        ['corrupt', '{"version": 1, "savedAt"'],
+        ['invalid', JSON.stringify({ version: 1, targets: [] })],
+        ['newer', JSON.stringify({ version: STATE_VERSION + 1, savedAt: '2026-01-12T09:00:00Z', targets: {} })],
+    ])('should start fresh from a %s state file', (_kind, content) => {
+        writeFileSync(path, content);
+
+        expect(stateFile.restore()).toBe(false);
+        expect(exporter.restore).not.toHaveBeenCalled();
+        expect(logger.warning).toHaveBeenCalled();
+    });
+
+    it('should start fresh when the saved state cannot be applied', () => {
+        writeFileSync(path, JSON.stringify({ version: 1, savedAt: '2026-01-12T09:00:00Z', targets: {} }));
+        exporter.restore.mockImplementation(() => {
+            throw new Error('Added label "instance" is not included in initial labelset');
+        });
+
+        expect(stateFile.restore()).toBe(false);
+        expect(logger.warning).toHaveBeenCalled();
+    });
+
+    it('should restore state files written before the format was versioned', () => {
+        writeFileSync(path, JSON.stringify({ savedAt: '2026-01-12T09:00:00Z', targets: SNAPSHOT.targets }));
+
+        expect(stateFile.restore()).toBe(true);
+        expect(exporter.restore).toHaveBeenCalledWith({ targets: SNAPSHOT.targets, counters: {} });
+    });
+
+    it('should log failed saves without throwing', async () => {
+        exporter.snapshot.mockRejectedValue(new Error('boom'));
+
+        await stateFile.save();
+
+        expect(logger.error).toHaveBeenCalledWith(`Could not save state to ${path}`, expect.any(Error));
+    });
+});
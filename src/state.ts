@@ -0,0 +1,118 @@
+import { readFileSync } from 'node:fs';
+import { rename, writeFile } from 'node:fs/promises';
+import { z } from 'zod';
+import type { OllamaExporter } from './exporter.ts';
+import { logger } from './logger.ts';
+
+/**
+ * Version of the state file format, raised on changes older exporters cannot read
+ */
+export const STATE_VERSION = 1;
+
+const counterSampleSchema = z.object({
+    labels: z.record(z.string(), z.union([z.string(), z.number()])),
+    value: z.number().nonnegative(),
+});
+
+const stateFileSchema = z.object({
+    // Files written before the format was versioned hold collector state only
+    version: z.number().int().nonnegative().default(0),
+    savedAt: z.string(),
+    targets: z.record(z.string(), z.record(z.string(), z.unknown())),
+    counters: z.record(z.string(), z.array(counterSampleSchema)).default({}),
+});
+
+/**
+ * Persists the exporter's counters, change detection baselines and cached model metadata,
+ * so a restart continues where the previous run left off
+ */
+export class StateFile {
+    private readonly path: string;
+    private readonly exporter: Pick<OllamaExporter, 'snapshot' | 'restore'>;
+    private saveInterval?: NodeJS.Timeout;
+    private pendingSave: Promise<void> = Promise.resolve();
+
+    constructor(path: string, exporter: Pick<OllamaExporter, 'snapshot' | 'restore'>) {
+        this.path = path;
+        this.exporter = exporter;
+    }
+
+    /**
+     * Restore the state saved by a previous run. A missing, corrupt, newer or unusable file means starting
+     * without state, which is logged but never fatal. Returns whether state was restored.
+     */
+    restore(): boolean {
+        let content: string;
+        try {
+            content = readFileSync(this.path, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+                logger.info(`No saved state in ${this.path}, starting fresh`);
+            } else {
+                logger.warning(`Could not read state file ${this.path}, starting fresh`, error);
+            }
+            return false;
+        }
+
+        let data: unknown;
+        try {
+            data = JSON.parse(content);
+        } catch (error) {
+            logger.warning(`Could not parse state file ${this.path}, starting fresh`, error);
+            return false;
+        }
+
+        const result = stateFileSchema.safeParse(data);
+        if (!result.success) {
+            logger.warning(`Invalid state file ${this.path}, starting fresh`);
+            return false;
+        }
+        if (result.data.version > STATE_VERSION) {
+            logger.warning(
+                `State file ${this.path} has version ${result.data.version} but at most ${STATE_VERSION} is supported, starting fresh`,
+            );
+            return false;
+        }
+
+        logger.info(`Restoring state saved at ${result.data.savedAt}`);
+        try {
+            this.exporter.restore({ targets: result.data.targets, counters: result.data.counters });
+        } catch (error) {
+            logger.warning(`Could not restore state from ${this.path}, starting fresh`, error);
+            return false;
+        }
+        return true;
+    }
+
+    /**
+     * Write the current state. Saves are serialized and written atomically, so an exporter killed
+     * mid-write leaves the previous file intact. Failures are logged, not thrown.
+     */
+    save(): Promise<void> {
+        this.pendingSave = this.pendingSave.then(async () => {
+            const temporaryPath = `${this.path}.tmp`;
+            try {
+                const snapshot = await this.exporter.snapshot();
+                const state = { version: STATE_VERSION, savedAt: new Date().toISOString(), ...snapshot };
+                await writeFile(temporaryPath, JSON.stringify(state));
+                await rename(temporaryPath, this.path);
+                logger.debug(`Saved state to ${this.path}`);
+            } catch (error) {
+                logger.error(`Could not save state to ${this.path}`, error);
+            }
+        });
+        return this.pendingSave;
+    }
+
+    start(interval: number): void {
+        this.stop();
+        this.saveInterval = setInterval(() => void this.save(), interval * 1000);
+    }
+
+    stop(): void {
+        if (this.saveInterval) {
+            clearInterval(this.saveInterval);
+            this.saveInterval = undefined;
+        }
+    }
+}
@@ -0,0 +1,178 @@
+import { createSocket, type Socket } from 'node:dgram';
+import { lookup } from 'node:dns/promises';
+import type { AddressInfo } from 'node:net';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Counter, Gauge, Histogram, type Registry } from 'prom-client';
+import { createRegistry } from './metrics.ts';
+import { parseStatsdAddress, StatsdSink } from './statsd.ts';
+
+// Lets a test resolve a hostname to an IPv6 address, the test machine's resolver has none
+vi.mock('node:dns/promises', async (importOriginal) => {
+    const dns = await importOriginal<typeof import('node:dns/promises')>();
+    return { ...dns, lookup: vi.fn(dns.lookup) };
+});
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+describe('parseStatsdAddress', () => {
+    it.each([
+        ['localhost', { host: 'localhost', port: 8125 }],
+        ['datadog-agent:8126', { host: 'datadog-agent', port: 8126 }],
+        ['::1', { host: '::1', port: 8125 }],
+        ['[::1]:9125', { host: '::1', port: 9125 }],
+    ])('should parse %s', (address, expected) => {
+        expect(parseStatsdAddress(address)).toEqual(expected);
+    });
+
+    it.each(['', 'agent:port', 'agent:8125/metrics'])('should reject %j', (address) => {
+        expect(() => parseStatsdAddress(address)).toThrow(/Invalid StatsD address/);
+    });
+});
+
+describe('StatsdSink', () => {
+    let registry: Registry;
+    let scrapes: Counter;
+    let durations: Histogram;
+    let agent: Socket;
+    let received: string[];
+    let sink: StatsdSink;
+
+    // Lines received by the agent, once as many as expected have arrived
+    const receive = async (count: number): Promise<string[]> => {
+        await vi.waitFor(() => expect(received.length).toBeGreaterThanOrEqual(count));
+        return received.splice(0);
+    };
+
+    beforeEach(async () => {
+        registry = createRegistry();
+        new Gauge({
+            name: 'ollama_model_size_bytes',
+            help: 'Size of the model in bytes',
+            labelNames: ['ollama_host', 'model_name', 'family', 'quantization_level'],
+            registers: [registry],
+        }).set(
+            { ollama_host: 'localhost:11434', model_name: 'llama3:8b', family: 'llama', quantization_level: 'Q4_0' },
+            4661224676,
+        );
+        scrapes = new Counter({
+            name: 'ollama_exporter_scrapes_total',
+            help: 'Total number of scrapes',
+            labelNames: ['status'],
+            registers: [registry],
+        });
+        scrapes.inc({ status: 'success' }, 5);
+        durations = new Histogram({
+            name: 'ollama_exporter_scrape_duration_seconds',
+            help: 'Time spent scraping Ollama',
+            labelNames: ['operation'],
+            buckets: [0.1, 1],
+            registers: [registry],
+        });
+        durations.observe({ operation: 'list_models' }, 1);
+
+        received = [];
+        agent = createSocket('udp4');
+        agent.on('message', (message) => received.push(...message.toString().split('\n')));
+        await new Promise<void>((resolve) => agent.bind(0, '127.0.0.1', resolve));
+        sink = new StatsdSink(registry, {
+            address: `127.0.0.1:${(agent.address() as AddressInfo).port}`,
+            prefix: 'ollama',
+        });
+    });
+
+    afterEach(async () => {
+        await sink.shutdown();
+        await new Promise<void>((resolve) => agent.close(() => resolve()));
+    });
+
+    it('should send gauges with labels as tags', async () => {
+        await sink.flush();
+
+        expect(await receive(1)).toEqual([
+            'ollama.model_size_bytes:4661224676|g|#ollama_host:localhost:11434,model_name:llama3:8b,family:llama,quantization_level:Q4_0',
+        ]);
+    });
+
+    it('should send the increase of counters and histograms since the last flush', async () => {
+        await sink.flush();
+        await receive(1);
+
+        scrapes.inc({ status: 'success' }, 2);
+        scrapes.inc({ status: 'error' });
+        durations.observe({ operation: 'list_models' }, 0.5);
+        durations.observe({ operation: 'list_models' }, 0.1);
+        durations.observe({ operation: 'show_model' }, 2);
+        await sink.flush();
+
+        expect(await receive(5)).toEqual(
+            expect.arrayContaining([
+                'ollama.exporter_scrapes_total:2|c|#status:success',
+                'ollama.exporter_scrapes_total:1|c|#status:error',
+                'ollama.exporter_scrape_duration_seconds:0.3|h|@0.5|#operation:list_models',
+                'ollama.exporter_scrape_duration_seconds:2|h|#operation:show_model',
+            ]),
+        );
+    });
+
+    it('should send increases once when flushes overlap', async () => {
+        await sink.flush();
+        await receive(1);
+
+        scrapes.inc({ status: 'success' }, 2);
+        await Promise.all([sink.flush(), sink.flush()]);
+        await sink.flush();
+
+        const lines = await receive(3);
+        expect(lines.filter((line) => line.startsWith('ollama.exporter_scrapes_total'))).toEqual([
+            'ollama.exporter_scrapes_total:2|c|#status:success',
+        ]);
+    });
+
+    it('should use an IPv6 socket for hosts that resolve to IPv6', async () => {
+        const agent6 = createSocket('udp6');
+        const lines: string[] = [];
+        agent6.on('message', (message) => lines.push(message.toString()));
+        await new Promise<void>((resolve) => agent6.bind(0, '::1', resolve));
+        vi.mocked(lookup).mockResolvedValueOnce({ address: '::1', family: 6 } as never);
+        const sink6 = new StatsdSink(registry, {
+            address: `agent.example.com:${(agent6.address() as AddressInfo).port}`,
+            prefix: 'ollama',
+        });
+        try {
+            await sink6.flush();
+
+            await vi.waitFor(() => expect(lines).toHaveLength(1));
+            expect(lines[0]).toContain('ollama.model_size_bytes:4661224676|g');
+        } finally {
+            await sink6.shutdown();
+            await new Promise<void>((resolve) => agent6.close(() => resolve()));
+        }
+    });
+
+    it('should split large flushes into several datagrams', async () => {
+        const gauge = new Gauge({
+            name: 'ollama_model_loaded',
+            help: 'Whether the model is loaded',
+            labelNames: ['model_name'],
+            registers: [registry],
+        });
+        for (let index = 0; index < 100; index++) {
+            gauge.set({ model_name: `model-${index}:latest` }, 1);
+        }
+        const datagrams: Buffer[] = [];
+        agent.on('message', (message) => datagrams.push(message));
+
+        await sink.flush();
+
+        await receive(101);
+        expect(datagrams.length).toBeGreaterThan(1);
+        expect(datagrams.every((datagram) => datagram.length <= 1432)).toBe(true);
+    });
+});
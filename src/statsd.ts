@@ -0,0 +1,259 @@
+import { createSocket, type Socket } from 'node:dgram';
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import type { MetricObjectWithValues, MetricValue, Registry } from 'prom-client';
+import { logger } from './logger.ts';
+import { collectMetrics, type ModelFilter } from './model-filter.ts';
+
+/**
+ * Default port of the DogStatsD agent
+ */
+export const DEFAULT_STATSD_PORT = 8125;
+
+// Default payload limit of the DogStatsD agent for UDP, datagrams are split at line boundaries below it
+const MAX_DATAGRAM_SIZE = 1432;
+
+export interface StatsdOptions {
+    address: string;
+    prefix: string;
+}
+
+export interface StatsdAddress {
+    host: string;
+    port: number;
+}
+
+type Sample = MetricValue<string> & { metricName?: string };
+
+/**
+ * Parse a DogStatsD agent address given as host, host:port or IPv6 literal, defaulting to port 8125
+ */
+export function parseStatsdAddress(value: string): StatsdAddress {
+    const input = value.trim();
+    let url: URL;
+    try {
+        url = new URL(`udp://${isIP(input) === 6 ? `[${input}]` : input}`);
+    } catch {
+        throw new Error(`Invalid StatsD address: ${value}`);
+    }
+    if (!url.hostname || url.username || url.password || url.pathname || url.search || url.hash) {
+        throw new Error(`Invalid StatsD address: ${value}, expected host:port`);
+    }
+    return { host: url.hostname.replace(/^\[(.*)\]$/, '$1'), port: Number(url.port) || DEFAULT_STATSD_PORT };
+}
+
+// Commas, pipes and hashes separate the parts of a DogStatsD line and cannot appear in names or tags
+function sanitize(value: string): string {
+    return value.replace(/[,|#\s]/g, '_');
+}
+
+function seriesKey(name: string, labels: Sample['labels']): string {
+    return `${name}${JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))}`;
+}
+
+/**
+ * Periodically sends the registry to a DogStatsD agent over UDP. Labels become tags, gauges are sent as
+ * gauges, counters as counts of their increase since the last flush. Histograms are sent as one histogram
+ * sample per flush: the mean of the new observations with a sample rate that makes the agent count each
+ * observation, since the individual values are not kept.
+ */
+export class StatsdSink {
+    private readonly registry: Registry;
+    private readonly modelFilter?: ModelFilter;
+    private options: StatsdOptions;
+    private address: StatsdAddress;
+    private socket?: Promise<{ socket: Socket; address: string }>;
+    private flushInterval?: NodeJS.Timeout;
+    private pendingFlush?: Promise<void>;
+    // Counter and histogram values at the last flush, their increase is what gets sent
+    private previous = new Map<string, number>();
+    private flushed = false;
+
+    constructor(registry: Registry, options: StatsdOptions, modelFilter?: ModelFilter) {
+        this.registry = registry;
+        this.modelFilter = modelFilter;
+        this.options = options;
+        this.address = parseStatsdAddress(options.address);
+    }
+
+    getAddress(): string {
+        return `${this.address.host}:${this.address.port}`;
+    }
+
+    /**
+     * Apply new options from the next flush on
+     */
+    reconfigure(options: StatsdOptions): void {
+        const address = parseStatsdAddress(options.address);
+        if (address.host !== this.address.host) {
+            // The socket type depends on the address family, so a new host gets a new socket
+            this.closeSocket();
+        }
+        this.options = options;
+        this.address = address;
+    }
+
+    private async render(): Promise<string[]> {
+        const lines: string[] = [];
+        const current = new Map<string, number>();
+        const increase = (key: string, value: number): number | undefined => {
+            current.set(key, value);
+            const last = this.previous.get(key);
+            // Series already present at the first flush may have counted before the exporter
+            // started (restored state), later ones start from zero
+            if (last === undefined) {
+                return this.flushed ? value : undefined;
+            }
+            // A lower value means the series was reset
+            return value >= last ? value - last : value;
+        };
+
+        for (const metric of (await collectMetrics(
+            this.registry,
+            this.modelFilter,
+        )) as MetricObjectWithValues<Sample>[]) {
+            const name = this.metricName(metric.name);
+            // Typed as an enum by prom-client, but the type name at runtime
+            const kind = String(metric.type);
+
+            if (kind === 'histogram') {
+                const histograms = new Map<string, { labels: Sample['labels']; sum: number; count: number }>();
+                for (const sample of metric.values) {
+                    if (sample.metricName !== `${metric.name}_sum` && sample.metricName !== `${metric.name}_count`) {
+                        continue;
+                    }
+                    const key = seriesKey(metric.name, sample.labels);
+                    const entry = histograms.get(key) ?? { labels: sample.labels, sum: 0, count: 0 };
+                    if (sample.metricName === `${metric.name}_sum`) {
+                        entry.sum = sample.value;
+                    } else {
+                        entry.count = sample.value;
+                    }
+                    histograms.set(key, entry);
+                }
+                for (const [key, { labels, sum, count }] of histograms) {
+                    const sumIncrease = increase(`${key}_sum`, sum);
+                    const countIncrease = increase(`${key}_count`, count);
+                    if (sumIncrease !== undefined && countIncrease) {
+                        const rate = Number((1 / countIncrease).toPrecision(6));
+                        lines.push(this.line(name, sumIncrease / countIncrease, rate < 1 ? `h|@${rate}` : 'h', labels));
+                    }
+                }
+            } else if (kind === 'counter') {
+                for (const sample of metric.values) {
+                    const count = increase(seriesKey(metric.name, sample.labels), sample.value);
+                    if (count) {
+                        lines.push(this.line(name, count, 'c', sample.labels));
+                    }
+                }
+            } else {
+                for (const sample of metric.values) {
+                    if (Number.isFinite(sample.value)) {
+                        lines.push(this.line(name, sample.value, 'g', sample.labels));
+                    }
+                }
+            }
+        }
+
+        this.previous = current;
+        this.flushed = true;
+        return lines;
+    }
+
+    private metricName(name: string): string {
+        const { prefix } = this.options;
+        return sanitize(prefix ? `${prefix}.${name.replace(/^ollama_/, '')}` : name);
+    }
+
+    private line(name: string, value: number, type: string, labels: Sample['labels']): string {
+        const tags = Object.entries(labels)
+            .filter(([, tag]) => tag !== undefined && tag !== '')
+            .map(([tag, tagValue]) => `${sanitize(tag)}:${sanitize(String(tagValue))}`);
+        // Rounded to 15 significant digits, the precision of a double, to drop floating point noise
+        return `${name}:${Number(value.toPrecision(15))}|${type}${tags.length > 0 ? `|#${tags.join(',')}` : ''}`;
+    }
+
+    /**
+     * Send the current metrics to the agent. Calls made while a flush is in flight share that flush,
+     * so no increase is computed twice from the same previous values.
+     */
+    flush(): Promise<void> {
+        this.pendingFlush ??= this.flushOnce().finally(() => {
+            this.pendingFlush = undefined;
+        });
+        return this.pendingFlush;
+    }
+
+    private async flushOnce(): Promise<void> {
+        const lines = await this.render();
+        const datagrams: string[] = [];
+        let datagram = '';
+        for (const line of lines) {
+            if (datagram && Buffer.byteLength(datagram) + 1 + Buffer.byteLength(line) > MAX_DATAGRAM_SIZE) {
+                datagrams.push(datagram);
+                datagram = '';
+            }
+            datagram = datagram ? `${datagram}\n${line}` : line;
+        }
+        if (datagram) {
+            datagrams.push(datagram);
+        }
+
+        const { port } = this.address;
+        try {
+            const { socket, address } = await this.getSocket();
+            for (const payload of datagrams) {
+                await new Promise<void>((resolve, reject) =>
+                    socket.send(payload, port, address, (error) => (error ? reject(error) : resolve())),
+                );
+            }
+        } catch (error) {
+            logger.warning('StatsD flush failed', { address: this.getAddress() }, error);
+            // Resolved again on the next flush, in case the agent moved
+            this.closeSocket();
+        }
+    }
+
+    /**
+     * Resolve the agent's host and open a socket of the address family it resolved to,
+     * so IPv6-only hosts work too
+     */
+    private getSocket(): Promise<{ socket: Socket; address: string }> {
+        this.socket ??= lookup(this.address.host).then(({ address, family }) => {
+            const socket = createSocket(family === 6 ? 'udp6' : 'udp4');
+            socket.on('error', (error) => logger.warning('StatsD socket error', error));
+            // An idle sink must not keep the process running
+            socket.unref();
+            return { socket, address };
+        });
+        return this.socket;
+    }
+
+    private closeSocket(): void {
+        void this.socket?.then(({ socket }) => socket.close()).catch(() => undefined);
+        this.socket = undefined;
+    }
+
+    start(interval: number): void {
+        this.stop();
+        this.flushInterval = setInterval(() => void this.flush(), interval * 1000);
+    }
+
+    stop(): void {
+        if (this.flushInterval) {
+            clearInterval(this.flushInterval);
+            this.flushInterval = undefined;
+        }
+    }
+
+    /**
+     * Stop flushing, send the final state and close the socket
+     */
+    async shutdown(): Promise<void> {
+        this.stop();
+        // Let a flush in flight finish first, the final one then sends what happened since
+        await this.pendingFlush;
+        await this.flush();
+        this.closeSocket();
+    }
+}
@@ -0,0 +1,309 @@
+import { z } from 'zod';
+import type { Collector, CollectorContext } from './collector.ts';
+import { validateResponse, type OllamaModel, type OllamaShowResponse } from './ollama-api.ts';
+
+const modelMetadataSchema = z.object({
+    architecture: z.string(),
+    contextLength: z.number().optional(),
+    embeddingLength: z.number().optional(),
+    parameterCount: z.number().optional(),
+    capabilities: z.array(z.string()),
+    hasLicense: z.boolean(),
+    hasTemplate: z.boolean(),
+});
+
+type ModelMetadata = z.infer<typeof modelMetadataSchema>;
+
+type ModelInfoLabels = Record<
+    'ollama_host' | 'model_name' | 'family' | 'format' | 'parameter_size' | 'quantization_level' | 'parent_model',
+    string
+>;
+
+const tagsStateSchema = z.object({
+    initialized: z.boolean(),
+    // Checked entry by entry against the /api/tags schema
+    models: z.array(z.unknown()),
+    metadata: z.record(z.string(), modelMetadataSchema),
+});
+
+/**
+ * Exports the locally available models from /api/tags along with their /api/show metadata
+ */
+export class TagsCollector implements Collector {
+    private readonly context: CollectorContext;
+    private lastModels = new Map<string, OllamaModel>();
+    // The first successful scrape only records the models, they were not pulled just now
+    private initialized = false;
+    // /api/show results keyed by model digest, so unchanged models are not re-fetched
+    private readonly metadataCache = new Map<string, ModelMetadata>();
+    // Metadata currently exported per model name, needed to remove its series later
+    private readonly exportedMetadata = new Map<string, ModelMetadata>();
+
+    constructor(context: CollectorContext) {
+        this.context = context;
+    }
+
+    async collect(): Promise<boolean> {
+        const { host, metrics } = this.context;
+        const endTimer = this.context.startOperationTimer('list_models');
+        const data = await this.context.request('tags');
+        endTimer();
+
+        if (!data) {
+            return false;
+        }
+
+        try {
+            const models = data.models || [];
+
+            // Remove metrics for models that no longer exist
+            const currentModels = new Set(models.map((m) => m.name || 'unknown'));
+            for (const [oldModelName, oldModel] of this.lastModels) {
+                if (!currentModels.has(oldModelName)) {
+                    this.removeModelMetrics(oldModelName, oldModel);
+                    this.context.publish({ type: 'deleted', model: oldModelName, digest: oldModel.digest });
+                }
+            }
+            if (this.initialized) {
+                this.publishChanges(models);
+            }
+
+            metrics.OLLAMA_MODELS_TOTAL.labels(host).set(models.length);
+
+            for (const model of models) {
+                const name = model.name || 'unknown';
+                const size = model.size || 0;
+                const modifiedAt = model.modified_at || '';
+
+                metrics.OLLAMA_MODEL_INFO.labels(this.modelInfoLabels(model)).set(1);
+
+                metrics.OLLAMA_MODEL_SIZE_BYTES.labels(host, name).set(size);
+
+                if (modifiedAt) {
+                    const modifiedTime = new Date(modifiedAt).getTime();
+                    if (Number.isNaN(modifiedTime)) {
+                        // The rest of the model is usable, only its timestamp is reported as invalid
+                        metrics.OLLAMA_EXPORTER_RESPONSE_VALIDATION_ERRORS_TOTAL.inc({
+                            ollama_host: host,
+                            endpoint: '/api/tags',
+                        });
+                        this.context.logger.warning(
+                            `Invalid response from /api/tags: ${name}.modified_at: ${modifiedAt}`,
+                            {
+                                endpoint: '/api/tags',
+                            },
+                        );
+                        metrics.OLLAMA_MODEL_MODIFIED_TIMESTAMP.remove(host, name);
+                    } else {
+                        metrics.OLLAMA_MODEL_MODIFIED_TIMESTAMP.labels(host, name).set(modifiedTime / 1000);
+                    }
+                }
+            }
+
+            this.lastModels = new Map(models.map((m) => [m.name || 'unknown', m]));
+            this.initialized = true;
+        } catch (error) {
+            this.context.logger.error('Error processing models', error);
+            return false;
+        }
+
+        return await this.updateModelMetadata(data.models || []);
+    }
+
+    snapshot(): unknown {
+        return {
+            initialized: this.initialized,
+            models: [...this.lastModels.values()],
+            metadata: Object.fromEntries(this.metadataCache),
+        };
+    }
+
+    /**
+     * Restore the models of the last scrape as the baseline for change detection, along with
+     * the cached metadata so unchanged models are not fetched from /api/show again
+     */
+    restore(state: unknown): boolean {
+        const result = tagsStateSchema.safeParse(state);
+        const models = result.success ? validateResponse('tags', { models: result.data.models }).data : null;
+        if (!result.success || !models) {
+            return false;
+        }
+
+        this.lastModels = new Map(models.models.map((m) => [m.name, m]));
+        this.initialized = result.data.initialized;
+        for (const [digest, metadata] of Object.entries(result.data.metadata)) {
+            this.metadataCache.set(digest, metadata);
+        }
+        return true;
+    }
+
+    clear(): void {
+        const { host, metrics } = this.context;
+
+        metrics.OLLAMA_MODELS_TOTAL.remove({ ollama_host: host });
+        for (const [name, model] of this.lastModels) {
+            this.removeModelMetrics(name, model);
+        }
+        for (const [name, metadata] of this.exportedMetadata) {
+            this.removeModelMetadataMetrics(name, metadata);
+        }
+        for (const operation of ['list_models', 'show_model']) {
+            metrics.OLLAMA_EXPORTER_SCRAPE_DURATION.remove({ ollama_host: host, operation });
+        }
+    }
+
+    private publishChanges(models: OllamaModel[]): void {
+        for (const model of models) {
+            const previous = this.lastModels.get(model.name);
+            if (!previous) {
+                this.context.publish({ type: 'pulled', model: model.name, digest: model.digest });
+            } else if (previous.digest && model.digest && previous.digest !== model.digest) {
+                this.context.publish({
+                    type: 'updated',
+                    model: model.name,
+                    digest: model.digest,
+                    previousDigest: previous.digest,
+                });
+            }
+        }
+    }
+
+    private modelInfoLabels(model: OllamaModel): ModelInfoLabels {
+        const details = model.details || {};
+        return {
+            ollama_host: this.context.host,
+            model_name: model.name || 'unknown',
+            family: details.family || 'unknown',
+            format: details.format || 'unknown',
+            parameter_size: details.parameter_size || 'unknown',
+            quantization_level: details.quantization_level || 'unknown',
+            parent_model: details.parent_model || 'unknown',
+        };
+    }
+
+    private removeModelMetrics(name: string, model: OllamaModel): void {
+        const { host, metrics } = this.context;
+        metrics.OLLAMA_MODEL_SIZE_BYTES.remove({ ollama_host: host, model_name: name });
+        metrics.OLLAMA_MODEL_MODIFIED_TIMESTAMP.remove({ ollama_host: host, model_name: name });
+        metrics.OLLAMA_MODEL_INFO.remove(this.modelInfoLabels(model));
+    }
+
+    private parseModelMetadata(data: OllamaShowResponse): ModelMetadata {
+        const modelInfo = data.model_info || {};
+        const architecture =
+            typeof modelInfo['general.architecture'] === 'string' ? modelInfo['general.architecture'] : '';
+        const numberField = (key: string): number | undefined => {
+            const value = modelInfo[key];
+            return typeof value === 'number' ? value : undefined;
+        };
+
+        return {
+            architecture: architecture || 'unknown',
+            contextLength: numberField(`${architecture}.context_length`),
+            embeddingLength: numberField(`${architecture}.embedding_length`),
+            parameterCount: numberField('general.parameter_count'),
+            capabilities: data.capabilities || [],
+            hasLicense: Boolean(data.license),
+            hasTemplate: Boolean(data.template),
+        };
+    }
+
+    private async fetchModelMetadata(model: OllamaModel): Promise<ModelMetadata | null> {
+        const endTimer = this.context.startOperationTimer('show_model');
+        const data = await this.context.request('show', 'POST', { model: model.name });
+        endTimer();
+
+        return data ? this.parseModelMetadata(data) : null;
+    }
+
+    private setModelMetadataMetrics(name: string, metadata: ModelMetadata): void {
+        const { metrics } = this.context;
+        const labels = { ollama_host: this.context.host, model_name: name };
+
+        metrics.OLLAMA_MODEL_METADATA_INFO.labels({
+            ...labels,
+            architecture: metadata.architecture,
+            has_license: String(metadata.hasLicense),
+            has_template: String(metadata.hasTemplate),
+        }).set(1);
+
+        if (metadata.contextLength !== undefined) {
+            metrics.OLLAMA_MODEL_CONTEXT_LENGTH.labels(labels).set(metadata.contextLength);
+        }
+        if (metadata.embeddingLength !== undefined) {
+            metrics.OLLAMA_MODEL_EMBEDDING_LENGTH.labels(labels).set(metadata.embeddingLength);
+        }
+        if (metadata.parameterCount !== undefined) {
+            metrics.OLLAMA_MODEL_PARAMETERS.labels(labels).set(metadata.parameterCount);
+        }
+        for (const capability of metadata.capabilities) {
+            metrics.OLLAMA_MODEL_CAPABILITY.labels({ ...labels, capability }).set(1);
+        }
+    }
+
+    private removeModelMetadataMetrics(name: string, metadata: ModelMetadata): void {
+        const { metrics } = this.context;
+        const labels = { ollama_host: this.context.host, model_name: name };
+
+        metrics.OLLAMA_MODEL_METADATA_INFO.remove({
+            ...labels,
+            architecture: metadata.architecture,
+            has_license: String(metadata.hasLicense),
+            has_template: String(metadata.hasTemplate),
+        });
+        metrics.OLLAMA_MODEL_CONTEXT_LENGTH.remove(labels);
+        metrics.OLLAMA_MODEL_EMBEDDING_LENGTH.remove(labels);
+        metrics.OLLAMA_MODEL_PARAMETERS.remove(labels);
+        for (const capability of metadata.capabilities) {
+            metrics.OLLAMA_MODEL_CAPABILITY.remove({ ...labels, capability });
+        }
+    }
+
+    private async updateModelMetadata(models: OllamaModel[]): Promise<boolean> {
+        let success = true;
+        const currentModels = new Set<string>();
+        const currentDigests = new Set<string>();
+
+        for (const model of models) {
+            const name = model.name || 'unknown';
+            currentModels.add(name);
+            if (model.digest) {
+                currentDigests.add(model.digest);
+            }
+
+            let metadata = model.digest ? this.metadataCache.get(model.digest) : undefined;
+            if (!metadata) {
+                const fetched = await this.fetchModelMetadata(model);
+                if (!fetched) {
+                    success = false;
+                    continue;
+                }
+                metadata = fetched;
+                if (model.digest) {
+                    this.metadataCache.set(model.digest, metadata);
+                }
+            }
+
+            const previous = this.exportedMetadata.get(name);
+            if (previous && previous !== metadata) {
+                this.removeModelMetadataMetrics(name, previous);
+            }
+            this.setModelMetadataMetrics(name, metadata);
+            this.exportedMetadata.set(name, metadata);
+        }
+
+        for (const [name, metadata] of this.exportedMetadata) {
+            if (!currentModels.has(name)) {
+                this.removeModelMetadataMetrics(name, metadata);
+                this.exportedMetadata.delete(name);
+            }
+        }
+        for (const digest of this.metadataCache.keys()) {
+            if (!currentDigests.has(digest)) {
+                this.metadataCache.delete(digest);
+            }
+        }
+
+        return success;
+    }
+}
@@ -0,0 +1,45 @@
+import type { Collector, CollectorContext } from './collector.ts';
+
+/**
+ * Reports whether Ollama responds and which version it runs
+ */
+export class VersionCollector implements Collector {
+    private readonly context: CollectorContext;
+    private lastVersion?: string;
+
+    constructor(context: CollectorContext) {
+        this.context = context;
+    }
+
+    async collect(): Promise<boolean> {
+        const { host, metrics } = this.context;
+        const data = await this.context.request('version');
+        // Requests aborted by a shutdown say nothing about the target, keep the last known state
+        if (this.context.signal.aborted) {
+            return false;
+        }
+
+        metrics.OLLAMA_UP.labels(host).set(data ? 1 : 0);
+        if (!data) {
+            this.context.logger.warning('Ollama API is not responding');
+            return false;
+        }
+
+        const version = data.version || 'unknown';
+        // Drop the old series after an Ollama upgrade so only the current version is reported
+        if (this.lastVersion && this.lastVersion !== version) {
+            metrics.OLLAMA_VERSION_INFO.remove({ ollama_host: host, version: this.lastVersion });
+        }
+        metrics.OLLAMA_VERSION_INFO.labels(host, version).set(1);
+        this.lastVersion = version;
+        return true;
+    }
+
+    clear(): void {
+        const { host, metrics } = this.context;
+        metrics.OLLAMA_UP.remove({ ollama_host: host });
+        if (this.lastVersion) {
+            metrics.OLLAMA_VERSION_INFO.remove({ ollama_host: host, version: this.lastVersion });
+        }
+    }
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { AddressInfo } from 'node:net';
+import bcrypt from 'bcryptjs';
+import { ConfigError } from './config.ts';
+import { WebServer } from './web-server.ts';
+
+vi.mock('./logger.ts', () => ({
+    logger: {
+        info: vi.fn(),
+        error: vi.fn(),
+        warning: vi.fn(),
+        debug: vi.fn(),
+    },
+}));
+
+function basicAuth(username: string, password: string): Record<string, string> {
+    return { Authorization: `Basic ${Buffer.from(`${username}:${password}`).toString('base64')}` };
+}
+
+describe('WebServer', () => {
+    // A low cost keeps the test fast, the hash format is the same as for production hashes
+    const hash = bcrypt.hashSync('secret', 4);
+    let webServer: WebServer;
+    let url: string;
+
+    beforeEach(async () => {
+        webServer = new WebServer(
+            (req, res) => {
+                res.writeHead(200);
+                res.end(req.headers.authorization ? 'credentials passed on' : 'ok');
+            },
+            { basic_auth_users: { prometheus: hash } },
+        );
+        await new Promise<void>((resolve) => webServer.listen(0, resolve));
+        const { port } = (webServer as unknown as { server: { address(): AddressInfo } }).server.address();
+        url = `http://127.0.0.1:${port}/metrics`;
+    });
+
+    afterEach(async () => {
+        await webServer.close();
+    });
+
+    it('should require basic auth when users are configured', async () => {
+        const response = await fetch(url);
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get('www-authenticate')).toContain('Basic');
+    });
+
+    it('should accept valid credentials and reject wrong passwords and unknown users', async () => {
+        expect((await fetch(url, { headers: basicAuth('prometheus', 'secret') })).status).toBe(200);
+        // Served from the cache of verified credentials the second time
+        expect((await fetch(url, { headers: basicAuth('prometheus', 'secret') })).status).toBe(200);
+        expect((await fetch(url, { headers: basicAuth('prometheus', 'wrong') })).status).toBe(401);
+        expect((await fetch(url, { headers: basicAuth('grafana', 'secret') })).status).toBe(401);
+    });
+
+    it('should serve /health without credentials', async () => {
+        expect((await fetch(url.replace('/metrics', '/health'))).status).toBe(200);
+    });
+
+    it('should answer 500 when the handler fails', async () => {
+        const failing = new WebServer(() => Promise.reject(new Error('boom')));
+        await new Promise<void>((resolve) => failing.listen(0, resolve));
+        const { port } = (failing as unknown as { server: { address(): AddressInfo } }).server.address();
+        try {
+            const response = await fetch(`http://127.0.0.1:${port}/probe`);
+
+            expect(response.status).toBe(500);
+        } finally {
+            await failing.close();
+        }
+    });
+
+    it('should not pass the exporter credentials on to the handler', async () => {
+        expect(await (await fetch(url, { headers: basicAuth('prometheus', 'secret') })).text()).toBe('ok');
+    });
+
+    it('should apply reloaded users', async () => {
+        webServer.configure({ basic_auth_users: {} });
+
+        expect((await fetch(url)).status).toBe(200);
+    });
+
+    it('should fail with a ConfigError when the certificate cannot be read', () => {
+        expect(
+            () =>
+                new WebServer(() => undefined, {
+                    basic_auth_users: {},
+                    tls_server_config: {
+                        cert_file: '/nonexistent/cert.pem',
+                        key_file: '/nonexistent/key.pem',
+                        client_auth_type: 'NoClientCert',
+                        min_version: 'TLS12',
+                    },
+                }),
+        ).toThrow(ConfigError);
+    });
+});
@@ -0,0 +1,230 @@
+import { createHash } from 'node:crypto';
+import { readFileSync, unwatchFile, watchFile } from 'node:fs';
+import {
+    createServer as createHttpServer,
+    type IncomingMessage,
+    type Server as HttpServer,
+    type ServerResponse,
+} from 'node:http';
+import { createServer as createHttpsServer, type Server as HttpsServer, type ServerOptions } from 'node:https';
+import type { TLSSocket } from 'node:tls';
+import bcrypt from 'bcryptjs';
+import { ConfigError, type WebConfig } from './config.ts';
+import { logger } from './logger.ts';
+
+type RequestHandler = (req: IncomingMessage, res: ServerResponse) => unknown;
+type TlsServerConfig = NonNullable<WebConfig['tls_server_config']>;
+
+// Compared against for unknown users, so they take as long to reject as a wrong password
+const DUMMY_HASH = '$2b$10$i6Vt3hWzzuh5mSJytwfTbexEcK0syh1e8HvhpuLQvl/xDFXRYxYaq';
+const CERTIFICATE_POLL_INTERVAL = 10_000;
+const NO_WEB_CONFIG: WebConfig = { basic_auth_users: {} };
+// Served without basic auth so container health checks work without credentials
+const PUBLIC_PATHS = new Set(['/health']);
+
+const TLS_VERSIONS = {
+    TLS10: 'TLSv1',
+    TLS11: 'TLSv1.1',
+    TLS12: 'TLSv1.2',
+    TLS13: 'TLSv1.3',
+} as const;
+
+function readFile(path: string, description: string): string {
+    try {
+        return readFileSync(path, 'utf8');
+    } catch (error) {
+        throw new ConfigError(
+            `Could not read ${description} ${path}: ${error instanceof Error ? error.message : error}`,
+        );
+    }
+}
+
+function secureContextOptions(tls: TlsServerConfig): ServerOptions {
+    return {
+        cert: readFile(tls.cert_file, 'TLS certificate'),
+        key: readFile(tls.key_file, 'TLS key'),
+        ca: tls.client_ca_file ? readFile(tls.client_ca_file, 'client CA bundle') : undefined,
+        minVersion: TLS_VERSIONS[tls.min_version],
+    };
+}
+
+/**
+ * HTTP(S) server for the exporter's own endpoints with optional TLS, client certificate
+ * verification and basic auth, configured through an exporter-toolkit style web config
+ */
+export class WebServer {
+    private readonly server: HttpServer | HttpsServer;
+    private config: WebConfig;
+    // Successful bcrypt comparisons are cached, they are deliberately slow
+    private readonly verifiedCredentials = new Set<string>();
+    private watchedFiles: string[] = [];
+
+    constructor(handler: RequestHandler, config: WebConfig = NO_WEB_CONFIG) {
+        this.config = config;
+
+        const listener = async (req: IncomingMessage, res: ServerResponse): Promise<void> => {
+            const pathname = new URL(req.url || '/', 'http://localhost').pathname;
+            if (!PUBLIC_PATHS.has(pathname) && !(await this.authenticate(req))) {
+                res.writeHead(401, {
+                    'Content-Type': 'text/plain',
+                    'WWW-Authenticate': 'Basic realm="ollama-exporter"',
+                });
+                res.end('Unauthorized');
+                return;
+            }
+            if (Object.keys(this.config.basic_auth_users).length > 0) {
+                // The credentials are for the exporter, the proxy must not pass them on to Ollama
+                delete req.headers.authorization;
+            }
+            try {
+                await handler(req, res);
+            } catch (error) {
+                logger.error('Request handler failed', { method: req.method, path: pathname }, error);
+                if (!res.headersSent) {
+                    res.writeHead(500, { 'Content-Type': 'text/plain' });
+                    res.end('Internal Server Error');
+                } else {
+                    res.destroy();
+                }
+            }
+        };
+
+        const tls = config.tls_server_config;
+        if (tls) {
+            const clientAuth = tls.client_auth_type;
+            this.server = createHttpsServer(
+                {
+                    ...secureContextOptions(tls),
+                    requestCert: clientAuth !== 'NoClientCert',
+                    rejectUnauthorized: clientAuth === 'RequireAndVerifyClientCert',
+                },
+                listener,
+            );
+            this.server.on('secureConnection', (socket: TLSSocket) => this.checkClientCertificate(socket));
+            this.watchCertificates(tls);
+        } else {
+            this.server = createHttpServer(listener);
+        }
+    }
+
+    isTls(): boolean {
+        return this.config.tls_server_config !== undefined;
+    }
+
+    listen(port: number, callback: () => void): void {
+        this.server.listen(port, callback);
+    }
+
+    /**
+     * Apply a reloaded web config. Users and certificates change immediately; switching
+     * between HTTP and HTTPS or changing the client auth type requires a restart.
+     */
+    configure(config: WebConfig = NO_WEB_CONFIG): void {
+        const current = this.config.tls_server_config;
+        const next = config.tls_server_config;
+
+        if (!current !== !next || (current && next && current.client_auth_type !== next.client_auth_type)) {
+            logger.warning('Changing TLS or client authentication requires a restart, keeping the current setting');
+        }
+
+        if (current && next) {
+            (this.server as HttpsServer).setSecureContext(secureContextOptions(next));
+            this.watchCertificates(next);
+        }
+
+        this.config = {
+            ...config,
+            tls_server_config: current && next ? { ...next, client_auth_type: current.client_auth_type } : current,
+        };
+        this.verifiedCredentials.clear();
+    }
+
+    /**
+     * Stop accepting connections and close the open ones
+     */
+    async close(): Promise<void> {
+        this.unwatchCertificates();
+        await new Promise<void>((resolve) => {
+            this.server.close(() => resolve());
+            this.server.closeAllConnections();
+        });
+    }
+
+    private async authenticate(req: IncomingMessage): Promise<boolean> {
+        const users = this.config.basic_auth_users;
+        if (Object.keys(users).length === 0) {
+            return true;
+        }
+
+        const match = /^Basic\s+(\S+)$/i.exec(req.headers.authorization || '');
+        const credentials = match ? Buffer.from(match[1], 'base64').toString('utf8') : '';
+        const separator = credentials.indexOf(':');
+        if (separator < 0) {
+            return false;
+        }
+
+        const username = credentials.slice(0, separator);
+        const password = credentials.slice(separator + 1);
+        const hash = Object.hasOwn(users, username) ? users[username] : undefined;
+
+        const cacheKey = createHash('sha256').update(`${username}\0${password}\0${hash}`).digest('hex');
+        if (this.verifiedCredentials.has(cacheKey)) {
+            return true;
+        }
+
+        const valid = await bcrypt.compare(password, hash ?? DUMMY_HASH);
+        if (valid && hash) {
+            this.verifiedCredentials.add(cacheKey);
+            return true;
+        }
+        return false;
+    }
+
+    private checkClientCertificate(socket: TLSSocket): void {
+        const clientAuth = this.config.tls_server_config?.client_auth_type;
+        const hasCertificate = Object.keys(socket.getPeerCertificate()).length > 0;
+
+        if (
+            (clientAuth === 'RequireAnyClientCert' && !hasCertificate) ||
+            (clientAuth === 'VerifyClientCertIfGiven' && hasCertificate && !socket.authorized)
+        ) {
+            logger.debug(
+                `Rejecting TLS client ${socket.remoteAddress}: ${socket.authorizationError || 'no certificate'}`,
+            );
+            socket.destroy();
+        }
+    }
+
+    /**
+     * Poll the certificate files and swap in a new secure context when they change,
+     * so renewed certificates are picked up without a restart
+     */
+    private watchCertificates(tls: TlsServerConfig): void {
+        this.unwatchCertificates();
+        this.watchedFiles = [tls.cert_file, tls.key_file, tls.client_ca_file].filter((file) => file !== undefined);
+
+        for (const file of this.watchedFiles) {
+            watchFile(file, { interval: CERTIFICATE_POLL_INTERVAL, persistent: false }, (current, previous) => {
+                if (current.mtimeMs === previous.mtimeMs) {
+                    return;
+                }
+                try {
+                    (this.server as HttpsServer).setSecureContext(secureContextOptions(tls));
+                    logger.info(`Reloaded TLS certificates after ${file} changed`);
+                } catch (error) {
+                    // Certificate and key are often replaced one after the other, the next change completes the pair
+                    logger.warning(
+                        `Could not reload TLS certificates: ${error instanceof Error ? error.message : error}`,
+                    );
+                }
+            });
+        }
+    }
+
+    private unwatchCertificates(): void {
+        for (const file of this.watchedFiles) {
+            unwatchFile(file);
+        }
+        this.watchedFiles = [];
+    }
+}